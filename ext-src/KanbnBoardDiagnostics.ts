@@ -0,0 +1,165 @@
+import * as fs from 'fs'
+import * as vscode from 'vscode'
+import validateBoard, { BoardProblem, fixProblem, validateFile } from './validateBoard'
+
+// A problem shown in the Problems panel, and the board it was found in
+interface BoardDiagnostic {
+  boardLocation: string
+  problem: BoardProblem
+}
+
+export default class KanbnBoardDiagnostics implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix]
+
+  private readonly _diagnostics = vscode.languages.createDiagnosticCollection('kanbn')
+  // The files that have diagnostics for each validated board, so they can be cleared when the board is validated again
+  private readonly _boardFiles = new Map<string, vscode.Uri[]>()
+  // The problems shown in the Problems panel, keyed by their file, line and message
+  private readonly _problems = new Map<string, BoardDiagnostic>()
+
+  private static problemKey (file: string, line: number, message: string): string {
+    return `${file}\n${line}\n${message}`
+  }
+
+  // Validate a board and show its problems in the Problems panel. Resolves to the number of problems found.
+  public async validate (boardLocation: string): Promise<number> {
+    const problems = await validateBoard(boardLocation)
+    this.clear(boardLocation)
+    const files = new Map<string, BoardProblem[]>()
+    for (const problem of problems) {
+      const file = vscode.Uri.file(problem.file).fsPath
+      files.set(file, [...(files.get(file) ?? []), problem])
+    }
+    for (const [file, fileProblems] of files) {
+      this.setFileProblems(boardLocation, file, fileProblems)
+    }
+    this._boardFiles.set(boardLocation, [...files.keys()].map(file => vscode.Uri.file(file)))
+
+    // Documents with unsaved changes show the problems in their text rather than the problems in their file
+    for (const document of vscode.workspace.textDocuments.filter(d => d.isDirty)) {
+      await this.validateDocument(boardLocation, document)
+    }
+    return problems.length
+  }
+
+  // Validate a board again if it has been validated before, e.g. when its files change
+  public async refresh (boardLocation: string): Promise<void> {
+    if (!this._boardFiles.has(boardLocation)) return
+    await this.validate(boardLocation)
+  }
+
+  // Show the problems in the text of one of a board's documents while it's being edited. Problems found in an older
+  // version of the document are dropped, so a slow check can't replace the problems from a newer one.
+  public async validateDocument (boardLocation: string, document: vscode.TextDocument): Promise<void> {
+    const version = document.version
+    const problems = await validateFile(boardLocation, document.uri.fsPath, document.getText())
+    if (problems === null || document.isClosed || document.version !== version) return
+    this.setFileProblems(boardLocation, document.uri.fsPath, problems)
+  }
+
+  // When a board's document is closed, show the problems in its file if the board has been validated, otherwise remove
+  // its problems
+  public async closeDocument (boardLocation: string, document: vscode.TextDocument): Promise<void> {
+    if (this._boardFiles.has(boardLocation) && fs.existsSync(document.uri.fsPath)) {
+      const contents = await fs.promises.readFile(document.uri.fsPath, 'utf8')
+      this.setFileProblems(boardLocation, document.uri.fsPath, await validateFile(boardLocation, document.uri.fsPath, contents) ?? [])
+    } else {
+      this.setFileProblems(boardLocation, document.uri.fsPath, [])
+    }
+  }
+
+  // Replace the problems shown for a file
+  private setFileProblems (boardLocation: string, file: string, problems: BoardProblem[]): void {
+    for (const [key, boardDiagnostic] of this._problems) {
+      if (vscode.Uri.file(boardDiagnostic.problem.file).fsPath === file) this._problems.delete(key)
+    }
+    const diagnostics = problems.map(problem => {
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(problem.line, 0, problem.line, Number.MAX_SAFE_INTEGER),
+        problem.message,
+        problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+      )
+      diagnostic.source = 'kanbn'
+      diagnostic.code = problem.code
+      this._problems.set(KanbnBoardDiagnostics.problemKey(file, problem.line, problem.message), { boardLocation, problem })
+      return diagnostic
+    })
+    this._diagnostics.set(vscode.Uri.file(file), diagnostics)
+  }
+
+  // Remove a board's problems from the Problems panel
+  private clear (boardLocation: string): void {
+    for (const uri of this._boardFiles.get(boardLocation) ?? []) {
+      this._diagnostics.delete(uri)
+    }
+    for (const [key, boardDiagnostic] of this._problems) {
+      if (boardDiagnostic.boardLocation === boardLocation) this._problems.delete(key)
+    }
+    this._boardFiles.delete(boardLocation)
+  }
+
+  // Repair some problems in a board and validate it again
+  public async fix (boardLocation: string, problems: BoardProblem[]): Promise<void> {
+    try {
+      for (const problem of problems) {
+        await fixProblem(boardLocation, problem)
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(`Couldn't fix the problem: ${e.message}`)
+      } else {
+        throw e
+      }
+    }
+    await this.validate(boardLocation)
+  }
+
+  public provideCodeActions (
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = []
+
+    // The fixes change the board's files, so they aren't offered while a document has unsaved changes
+    if (document.isDirty) return actions
+    let boardLocation: string | null = null
+    for (const diagnostic of context.diagnostics) {
+      const boardDiagnostic = this._problems.get(
+        KanbnBoardDiagnostics.problemKey(document.uri.fsPath, diagnostic.range.start.line, diagnostic.message)
+      )
+      if (boardDiagnostic?.problem.fix == null) continue
+      const action = new vscode.CodeAction(boardDiagnostic.problem.fix, vscode.CodeActionKind.QuickFix)
+      action.diagnostics = [diagnostic]
+      action.isPreferred = true
+      action.command = {
+        title: boardDiagnostic.problem.fix,
+        command: 'kanbn.fixBoardProblems',
+        arguments: [boardDiagnostic.boardLocation, [boardDiagnostic.problem]]
+      }
+      actions.push(action)
+      boardLocation = boardDiagnostic.boardLocation
+    }
+
+    // Offer to fix all of the board's problems at once, if there's more than one
+    if (boardLocation !== null) {
+      const fixable = [...this._problems.values()]
+        .filter(d => d.boardLocation === boardLocation && d.problem.fix !== null)
+        .map(d => d.problem)
+      if (fixable.length > 1) {
+        const action = new vscode.CodeAction(`Fix all ${fixable.length} problems in this board`, vscode.CodeActionKind.QuickFix)
+        action.command = {
+          title: action.title,
+          command: 'kanbn.fixBoardProblems',
+          arguments: [boardLocation, fixable]
+        }
+        actions.push(action)
+      }
+    }
+    return actions
+  }
+
+  public dispose (): void {
+    this._diagnostics.dispose()
+  }
+}
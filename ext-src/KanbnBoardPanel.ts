@@ -4,7 +4,15 @@ import * as vscode from 'vscode'
 import getNonce from './getNonce'
 import KanbnTaskPanel from './KanbnTaskPanel'
 import KanbnBurndownPanel from './KanbnBurndownPanel'
+import KanbnJournal from './KanbnJournal'
+import loadTemplates, { KanbnTemplate, chooseTemplate } from './templates'
+import { ChecklistTask } from './parseChecklist'
+import syncTodos, { TodoComment } from './todoSync'
+import { findConflicts } from './conflicts'
+import { ExportFormat, boardToCsv, boardToHtml, boardToJson, csvColumns } from './exportBoard'
+import { Commit, Repository, checkoutBranch, findMainBranch, getGitApi, isMerged, parseCommitReferences, taskBranchName } from './git'
 import { Kanbn } from '@basementuniverse/kanbn/src/main'
+import { paramCase } from '@basementuniverse/kanbn/src/utility'
 
 const sortByFields: Record<string, string> = {
   Name: 'name',
@@ -33,9 +41,18 @@ export default class KanbnBoardPanel {
   private readonly _kanbnFolderName: string
   private readonly _kanbn: Kanbn
   private readonly _kanbnBurndownPanel: KanbnBurndownPanel
+  private readonly _journal: KanbnJournal
   private _panel: vscode.WebviewPanel | null = null
   private _updateSeq = 0
   private _suppressUpdates = false
+  // Set once the webview has rendered and asked for the board, so messages posted to it won't be lost
+  private _webviewReady = false
+  // A saved view to apply once the webview is ready
+  private _pendingView: any = null
+  // Set once the user has been told about merge conflicts in the board's files, until the board loads again
+  private _conflictsNotified = false
+  // The board's task templates, loaded when first needed and again after the templates folder changes
+  private _templates: KanbnTemplate[] | null = null
 
   public async show (): Promise<void> {
     if (this._panel == null) {
@@ -44,10 +61,43 @@ export default class KanbnBoardPanel {
     this._panel?.reveal(this.column)
   }
 
-  public showTaskPanel (taskId: string | null, column: string | null = null): void {
+  // Reload the task templates the next time they're needed, e.g. after a template file changes
+  public refreshTemplates (): void {
+    this._templates = null
+  }
+
+  private getTemplates (): KanbnTemplate[] {
+    if (this._templates === null) {
+      this._templates = loadTemplates(this._kanbnFolderName)
+    }
+    return this._templates
+  }
+
+  public get isActive (): boolean {
+    return this._panel?.active ?? false
+  }
+
+  // The board's undo journal, so changes made in other panels can be undone from the board
+  public get journal (): KanbnJournal {
+    return this._journal
+  }
+
+  public showTaskPanel (taskId: string | null, column: string | null = null, template: KanbnTemplate | null = null): void {
     let panel: KanbnTaskPanel
     if (taskId == null || !this.openedTaskPanels.has(taskId)) {
-      panel = new KanbnTaskPanel(this._extensionPath, this._workspacePath, this._kanbn, this._kanbnFolderName, taskId, column, this.openedTaskPanels)
+      panel = new KanbnTaskPanel(
+        this._extensionPath,
+        this._workspacePath,
+        this._kanbn,
+        this._kanbnFolderName,
+        taskId,
+        column,
+        this.openedTaskPanels,
+        async (taskId) => { await this.startWork(taskId) },
+        this._journal,
+        async () => { await this.update() },
+        template
+      )
       if (taskId != null) {
         this.openedTaskPanels.set(taskId, panel)
       }
@@ -57,6 +107,454 @@ export default class KanbnBoardPanel {
     void panel.show()
   }
 
+  // Open the task editor for a new task, prompting for a template first if the board has any
+  public async addTask (column: string | null = null): Promise<void> {
+    const templates = this.getTemplates()
+    if (templates.length === 0) {
+      this.showTaskPanel(null, column)
+      return
+    }
+    const template = await chooseTemplate(templates, true)
+    if (template !== undefined) {
+      this.showTaskPanel(null, column, template)
+    }
+  }
+
+  // Move a task to a column (appending it if no position is given) and spawn the next occurrence of recurring tasks
+  public async moveTask (taskId: string, columnName: string, position: number | null = null): Promise<void> {
+    try {
+      if (!await this.checkWipLimit(columnName, [taskId])) return
+      await this._journal.record(`Move '${taskId}' to ${columnName}`, [taskId], async () => {
+        await this._kanbn.moveTask(taskId, columnName, position)
+        await this.handleRecurrence(taskId, columnName)
+      })
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(e.message)
+      } else {
+        throw e
+      }
+    }
+  }
+
+  // Apply a saved view: send its filter, column sorting and layout to the webview. The view is only applied in the
+  // webview, so the index isn't changed.
+  public async applyView (name: string): Promise<void> {
+    let view: any
+    try {
+      const index = await this._kanbn.getIndex()
+      view = (index.options.views ?? []).find((v: any) => v.name === name)
+      if (view === undefined) {
+        void vscode.window.showErrorMessage(`View '${name}' doesn't exist.`)
+        return
+      }
+      if (view.focusedColumn != null && !(view.focusedColumn in index.columns)) {
+        view = { ...view, focusedColumn: null }
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(e.message)
+        return
+      } else {
+        throw e
+      }
+    }
+    if (this._panel == null || !this._webviewReady) {
+      this._pendingView = view
+      await this.show()
+      return
+    }
+    void this._panel.webview.postMessage({ type: 'applyView', view })
+  }
+
+  // Undo the last change made to the board
+  public async undo (): Promise<void> {
+    if (!this._journal.canUndo) {
+      void vscode.window.showInformationMessage('There is nothing to undo.')
+      return
+    }
+    if (this._journal.undoIsStale() && await vscode.window.showWarningMessage(
+      'The board files have changed since this change was made. Undo anyway?', { modal: true }, 'Undo'
+    ) !== 'Undo') return
+    const label = this._journal.undo()
+    void this.update()
+    if (vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true) {
+      void vscode.window.showInformationMessage(`Undone: ${label ?? ''}.`)
+    }
+  }
+
+  // Redo the last undone change
+  public async redo (): Promise<void> {
+    if (!this._journal.canRedo) {
+      void vscode.window.showInformationMessage('There is nothing to redo.')
+      return
+    }
+    if (this._journal.redoIsStale() && await vscode.window.showWarningMessage(
+      'The board files have changed since this change was undone. Redo anyway?', { modal: true }, 'Redo'
+    ) !== 'Redo') return
+    const label = this._journal.redo()
+    void this.update()
+    if (vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true) {
+      void vscode.window.showInformationMessage(`Redone: ${label ?? ''}.`)
+    }
+  }
+
+  // Archive tasks, recording the change so it can be undone
+  public async archiveTasks (taskIds: string[]): Promise<void> {
+    this._suppressUpdates = true
+    try {
+      await this._journal.record(`Archive ${taskIds.length} task${taskIds.length === 1 ? '' : 's'}`, taskIds, async () => {
+        for (const taskId of taskIds) {
+          await this._kanbn.archiveTask(taskId)
+        }
+      })
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(e.message)
+      } else {
+        throw e
+      }
+    } finally {
+      this._suppressUpdates = false
+    }
+    void this.update()
+  }
+
+  // Create tasks (e.g. from a markdown checklist) in a column. Tasks that can't be created, for example because a task
+  // with the same name already exists, are skipped and reported.
+  public async createTasks (tasks: ChecklistTask[], columnName: string): Promise<void> {
+    if (!await this.checkWipLimit(columnName, tasks.map(task => paramCase(task.name)))) return
+    const failed: string[] = []
+    this._suppressUpdates = true
+    try {
+      await this._journal.record(`Create ${tasks.length} task${tasks.length === 1 ? '' : 's'}`, [], async () => {
+        for (const task of tasks) {
+          try {
+            await this._kanbn.createTask({
+              name: task.name,
+              description: '',
+              metadata: {
+                created: new Date(),
+                tags: task.tags
+              },
+              relations: [],
+              subTasks: task.subTasks,
+              comments: []
+            }, columnName)
+          } catch (e) {
+            if (e instanceof Error) {
+              failed.push(`'${task.name}' (${e.message})`)
+            } else {
+              throw e
+            }
+          }
+        }
+      })
+    } finally {
+      this._suppressUpdates = false
+    }
+    void this.update()
+    const created = tasks.length - failed.length
+    if (failed.length > 0) {
+      void vscode.window.showErrorMessage(`Couldn't create ${failed.length} task${failed.length === 1 ? '' : 's'}: ${failed.join(', ')}`)
+    }
+    if (created > 0 && vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true) {
+      void vscode.window.showInformationMessage(`Created ${created} task${created === 1 ? '' : 's'} in ${columnName}.`)
+    }
+  }
+
+  // Sync tasks with the TODO comments found in the workspace. Unless quiet is set (e.g. when syncing on save), a summary
+  // is shown even if nothing changed.
+  public async syncTodos (todos: TodoComment[], quiet: boolean = false): Promise<void> {
+    this._suppressUpdates = true
+    try {
+      const index = await this._kanbn.getIndex()
+      const todoTaskIds: string[] = (await this._kanbn.loadAllTrackedTasks(index))
+        .filter(task => typeof task.metadata.todo === 'string')
+        .map(task => task.id)
+      const columnName = vscode.workspace.getConfiguration('kanbn').get<string>('todoColumn') ?? ''
+      const result = await this._journal.record('Sync TODO comments', todoTaskIds, async () =>
+        await syncTodos(this._kanbn, todos, columnName !== '' ? columnName : null)
+      )
+      if (result.failed.length > 0) {
+        void vscode.window.showErrorMessage(`Couldn't sync ${result.failed.length} TODO comment${result.failed.length === 1 ? '' : 's'}: ${result.failed.join(', ')}`)
+      }
+      const changed = result.created + result.updated + result.archived.length > 0
+      if (!quiet || (changed && vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true)) {
+        void vscode.window.showInformationMessage(changed
+          ? `Synced TODO comments: ${result.created} created, ${result.updated} updated, ${result.archived.length} archived.`
+          : 'TODO comment tasks are up to date.'
+        )
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(e.message)
+      } else {
+        throw e
+      }
+    } finally {
+      this._suppressUpdates = false
+    }
+    void this.update()
+  }
+
+  // Start work on a task: check out its branch (creating it if needed), move it to the first started column and set its
+  // started date. The branch is stored in the task's 'branch' metadata property.
+  public async startWork (taskId: string): Promise<void> {
+    try {
+      const gitApi = await getGitApi()
+      const repository = gitApi?.getRepository(vscode.Uri.file(this._kanbnFolderName)) ?? null
+      if (repository === null) {
+        void vscode.window.showErrorMessage('Couldn\'t find a git repository for this board.')
+        return
+      }
+      const index = await this._kanbn.getIndex()
+      const task = await this._kanbn.getTask(taskId)
+      const currentColumn = Object.keys(index.columns).find(columnName => index.columns[columnName].includes(taskId))
+      const startedColumns: string[] = (index.options.startedColumns ?? []).filter((c: string) => c in index.columns)
+      const completedColumns: string[] = index.options.completedColumns ?? []
+      const targetColumn = startedColumns.length > 0 &&
+        currentColumn !== undefined &&
+        !startedColumns.includes(currentColumn) &&
+        !completedColumns.includes(currentColumn)
+        ? startedColumns[0]
+        : null
+      if (targetColumn !== null && !await this.checkWipLimit(targetColumn, [taskId])) return
+
+      const branchName = taskBranchName(taskId)
+      await checkoutBranch(repository, branchName)
+      await this._journal.record(`Start work on '${taskId}'`, [taskId], async () => {
+        if (task.metadata.started == null) {
+          task.metadata.started = new Date()
+        }
+        task.metadata.branch = branchName
+        task.metadata.updated = new Date()
+        await this._kanbn.updateTask(taskId, task, targetColumn)
+      })
+      void this.update()
+      if (vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true) {
+        void vscode.window.showInformationMessage(`Started work on '${task.name as string}' on branch '${branchName}'.`)
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(e.message)
+      } else {
+        throw e
+      }
+    }
+  }
+
+  // Move a task to the first completed column and set its completed date, e.g. from a due date reminder
+  public async markDone (taskId: string): Promise<void> {
+    try {
+      const index = await this._kanbn.getIndex()
+      const completedColumns: string[] = (index.options.completedColumns ?? []).filter((c: string) => c in index.columns)
+      if (completedColumns.length === 0) {
+        void vscode.window.showErrorMessage('This board doesn\'t have a completed column.')
+        return
+      }
+      const targetColumn = completedColumns[0]
+      if (!await this.checkWipLimit(targetColumn, [taskId])) return
+      const task = await this._kanbn.getTask(taskId)
+      await this._journal.record(`Mark '${taskId}' done`, [taskId], async () => {
+        task.metadata.completed = new Date()
+        task.metadata.updated = new Date()
+        await this._kanbn.updateTask(taskId, task, targetColumn)
+        await this.handleRecurrence(taskId, targetColumn)
+      })
+      void this.update()
+      if (vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true) {
+        void vscode.window.showInformationMessage(`Moved '${task.name as string}' to ${targetColumn}.`)
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(e.message)
+      } else {
+        throw e
+      }
+    }
+  }
+
+  // Check whether the branches of unfinished tasks have been merged into the main branch, and offer to move the tasks to
+  // a completed column. A branch only counts as merged once it has been seen with commits that aren't on the main
+  // branch (these branches are kept in the unmerged set), so a new branch with no commits isn't mistaken for a merged one.
+  public async checkMergedBranches (repository: Repository, unmerged: Set<string>): Promise<void> {
+    const index = await this._kanbn.getIndex()
+    const completedColumns: string[] = (index.options.completedColumns ?? []).filter((c: string) => c in index.columns)
+    if (completedColumns.length === 0) return
+    const mainBranch = await findMainBranch(repository)
+    if (mainBranch === null) return
+    const tasks = (await this._kanbn.loadAllTrackedTasks(index))
+      .map(task => this._kanbn.hydrateTask(index, task))
+      .filter(task => typeof task.metadata.branch === 'string' && !completedColumns.includes(task.column))
+    for (const task of tasks) {
+      const branchName: string = task.metadata.branch
+      if (branchName === mainBranch) continue
+      const merged = await isMerged(repository, branchName, mainBranch)
+      if (merged === false) {
+        unmerged.add(branchName)
+      } else if (merged === true && unmerged.has(branchName)) {
+        unmerged.delete(branchName)
+        void vscode.window.showInformationMessage(
+          `Branch '${branchName}' has been merged into ${mainBranch}. Move task '${task.name as string}' to a completed column?`,
+          ...completedColumns.map(columnName => `Move to ${columnName}`)
+        ).then(async choice => {
+          if (choice === undefined) return
+          await this.moveTask(task.id, completedColumns[completedColumns.map(c => `Move to ${c}`).indexOf(choice)])
+          void this.update()
+        })
+      }
+    }
+  }
+
+  // Comment on the tasks referenced by 'Closes kanbn:<id>' or 'Refs kanbn:<id>' lines in commit messages, and move tasks
+  // that are closed to the first completed column. Commits that a task already has a comment for are skipped.
+  public async applyCommitReferences (commits: Commit[]): Promise<void> {
+    const index = await this._kanbn.getIndex()
+    const taskIds = new Set(Object.values(index.columns).flat() as string[])
+    const completedColumns: string[] = (index.options.completedColumns ?? []).filter((c: string) => c in index.columns)
+    const references = commits.flatMap(commit => parseCommitReferences(commit.message)
+      .filter(reference => taskIds.has(reference.taskId))
+      .map(reference => ({ ...reference, commit }))
+    )
+    if (references.length === 0) return
+    const referencedIds = [...new Set(references.map(reference => reference.taskId))]
+    const closed: string[] = []
+    this._suppressUpdates = true
+    try {
+      await this._journal.record(`Apply commit references to ${referencedIds.length} task${referencedIds.length === 1 ? '' : 's'}`, referencedIds, async () => {
+        // Commits are listed newest first, so apply them oldest first to keep the comments in order
+        for (const { taskId, closes, commit } of [...references].reverse()) {
+          const task = await this._kanbn.getTask(taskId)
+          const comments: any[] = task.comments
+          if (comments.some(comment => String(comment.text).includes(commit.hash))) continue
+          const subject = commit.message.split('\n')[0]
+          task.comments.push({
+            author: commit.authorName ?? '',
+            date: commit.authorDate ?? new Date(),
+            text: `${closes ? 'Closed' : 'Referenced'} in commit ${commit.hash}: ${subject}`
+          })
+          task.metadata.updated = new Date()
+          const currentColumn = Object.keys(index.columns).find(columnName => index.columns[columnName].includes(taskId))
+          const targetColumn = closes &&
+            completedColumns.length > 0 &&
+            currentColumn !== undefined &&
+            !completedColumns.includes(currentColumn) &&
+            !closed.includes(taskId)
+            ? completedColumns[0]
+            : null
+          if (targetColumn !== null) {
+            task.metadata.completed = new Date()
+          }
+          await this._kanbn.updateTask(taskId, task, targetColumn)
+          if (targetColumn !== null) {
+            await this.handleRecurrence(taskId, targetColumn)
+            closed.push(taskId)
+          }
+        }
+      })
+    } finally {
+      this._suppressUpdates = false
+    }
+    void this.update()
+    if (closed.length > 0 && vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true) {
+      void vscode.window.showInformationMessage(`Closed ${closed.length} task${closed.length === 1 ? '' : 's'} from commit messages: ${closed.join(', ')}.`)
+    }
+  }
+
+  // Export the board's tasks to a CSV, JSON or HTML file. CSV exports start with the columns in the exportCsvColumns
+  // setting selected.
+  public async exportBoard (): Promise<void> {
+    const format = await vscode.window.showQuickPick(
+      [
+        { label: 'CSV', description: 'A row for each task, with the columns you choose', format: 'csv' as ExportFormat },
+        { label: 'JSON', description: 'The board and all task data', format: 'json' as ExportFormat },
+        { label: 'HTML', description: 'A standalone snapshot of the board that can be opened in a browser', format: 'html' as ExportFormat }
+      ],
+      { placeHolder: 'Select an export format...' }
+    )
+    if (format === undefined) return
+    try {
+      const index = await this._kanbn.getIndex()
+      const tasks: any[] = (await this._kanbn.loadAllTrackedTasks(index)).map((task) => this._kanbn.hydrateTask(index, task))
+      let contents: string
+      if (format.format === 'csv') {
+        const defaultColumns = vscode.workspace.getConfiguration('kanbn').get<string[]>('exportCsvColumns') ?? []
+        const columns = await vscode.window.showQuickPick(
+          [
+            ...Object.entries(csvColumns).map(([label, description]) => ({ label, description })),
+            ...(index.options.customFields ?? []).map((c: any) => ({ label: String(c.name), description: `Custom field (${String(c.type)})` }))
+          ].map(item => ({ ...item, picked: defaultColumns.includes(item.label) })),
+          { placeHolder: 'Select the columns to export...', canPickMany: true }
+        )
+        if (columns === undefined || columns.length === 0) return
+        contents = boardToCsv(index, tasks, columns.map(column => column.label))
+      } else {
+        contents = format.format === 'json' ? boardToJson(index, tasks) : boardToHtml(index, tasks)
+      }
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(this._workspacePath, `${String(paramCase(index.name))}.${format.format}`)),
+        filters: { [format.label]: [format.format] }
+      })
+      if (uri === undefined) return
+      await fs.promises.writeFile(uri.fsPath, contents)
+      const action = await vscode.window.showInformationMessage(
+        `Exported ${tasks.length} task${tasks.length === 1 ? '' : 's'} to ${path.basename(uri.fsPath)}.`,
+        'Open'
+      )
+      if (action === 'Open') {
+        void (format.format === 'html' ? vscode.env.openExternal(uri) : vscode.commands.executeCommand('vscode.open', uri))
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(e.message)
+      } else {
+        throw e
+      }
+    }
+  }
+
+  // Check whether moving tasks into a column would exceed the column's WIP limit. Depending on the enforcement
+  // setting this shows a warning, or refuses the move (in which case the webview is reset to the saved state).
+  private async checkWipLimit (columnName: string, taskIds: string[]): Promise<boolean> {
+    const enforcement = vscode.workspace.getConfiguration('kanbn').get<string>('wipLimitEnforcement') ?? 'warn'
+    if (enforcement === 'off') return true
+    const index = await this._kanbn.getIndex()
+    const limit: number | undefined = index.options.wipLimits?.[columnName]
+    if (limit === undefined) return true
+    const columnTasks: string[] = index.columns[columnName] ?? []
+    const incomingTasks = taskIds.filter(taskId => !columnTasks.includes(taskId))
+    if (incomingTasks.length === 0 || columnTasks.length + incomingTasks.length <= limit) return true
+    const text = `Column '${columnName}' has a WIP limit of ${limit}, this would make it ${columnTasks.length + incomingTasks.length}.`
+    if (enforcement === 'block') {
+      void vscode.window.showErrorMessage(`${text} The move was refused.`)
+      void this.update()
+      return false
+    }
+    void vscode.window.showWarningMessage(text)
+    return true
+  }
+
+  // Show an error from loading the board. If the board's files have merge conflicts, offer to resolve them instead. This
+  // is only shown once until the board loads again, since the board is updated whenever its files change.
+  private async showLoadError (error: Error): Promise<void> {
+    const conflicts = await findConflicts(this._kanbnFolderName)
+    const count = (conflicts.index !== null ? 1 : 0) + conflicts.tasks.length
+    if (count === 0) {
+      void vscode.window.showErrorMessage(error.message)
+      return
+    }
+    if (this._conflictsNotified) return
+    this._conflictsNotified = true
+    const choice = await vscode.window.showErrorMessage(
+      `The board can't be loaded because ${count} of its files ${count === 1 ? 'has' : 'have'} merge conflicts.`,
+      'Resolve conflicts'
+    )
+    if (choice === 'Resolve conflicts') {
+      void vscode.commands.executeCommand('kanbn.resolveConflicts', this._kanbnFolderName)
+    }
+  }
+
   public async update (): Promise<void> {
     if (this._suppressUpdates) return
     const seq = ++this._updateSeq
@@ -65,7 +563,7 @@ export default class KanbnBoardPanel {
       index = await this._kanbn.getIndex()
     } catch (error) {
       if (error instanceof Error) {
-        void vscode.window.showErrorMessage(error.message)
+        await this.showLoadError(error)
       } else {
         throw error
       }
@@ -79,13 +577,14 @@ export default class KanbnBoardPanel {
       )
     } catch (error) {
       if (error instanceof Error) {
-        void vscode.window.showErrorMessage(error.message)
+        await this.showLoadError(error)
       } else {
         throw error
       }
       return
     }
     if (seq !== this._updateSeq) return
+    this._conflictsNotified = false
     void this._panel?.webview.postMessage({
       type: 'index',
       index,
@@ -94,6 +593,10 @@ export default class KanbnBoardPanel {
       startedColumns: index.options.startedColumns ?? [],
       completedColumns: index.options.completedColumns ?? [],
       columnSorting: index.options.columnSorting ?? {},
+      wipLimits: index.options.wipLimits ?? {},
+      swimlanes: index.options.swimlanes ?? null,
+      views: index.options.views ?? [],
+      templates: this.getTemplates().map(template => template.name),
       customFields: index.options.customFields ?? [],
       dateFormat: this._kanbn.getDateFormat(index),
       showBurndownButton: vscode.workspace.getConfiguration('kanbn').get('showBurndownButton'),
@@ -207,7 +710,10 @@ export default class KanbnBoardPanel {
 
     // Listen for when the panel is disposed
     // This happens when the user closes the panel or when the panel is closed programatically
-    this._panel.onDidDispose(() => { this._panel = null })
+    this._panel.onDidDispose(() => {
+      this._panel = null
+      this._webviewReady = false
+    })
     // Handle messages from the webview
     this._panel.webview.onDidReceiveMessage(
       async (message) => {
@@ -219,7 +725,12 @@ export default class KanbnBoardPanel {
 
           // Update webview. This is called when the webview first renders.
           case 'kanbn.updateMe':
-            void this.update()
+            this._webviewReady = true
+            await this.update()
+            if (this._pendingView !== null) {
+              void this._panel?.webview.postMessage({ type: 'applyView', view: this._pendingView })
+              this._pendingView = null
+            }
             return
 
           // Open an already existing task in the editor
@@ -229,16 +740,20 @@ export default class KanbnBoardPanel {
 
           // Move a task
           case 'kanbn.move':
-            try {
-              await this._kanbn.moveTask(message.task, message.columnName, message.position)
-              await this.handleRecurrence(message.task, message.columnName)
-            } catch (e) {
-              if (e instanceof Error) {
-                void vscode.window.showErrorMessage(e.message)
-              } else {
-                throw e
-              }
-            }
+            await this.moveTask(message.task, message.columnName, message.position)
+            return
+
+          // Undo or redo the last board change
+          case 'kanbn.undo':
+            await this.undo()
+            return
+          case 'kanbn.redo':
+            await this.redo()
+            return
+
+          // Check out a task's branch and move it to the first started column
+          case 'kanbn.startWork':
+            await this.startWork(message.taskId)
             return
 
           // Open a webview for a new task (with no ID)
@@ -246,6 +761,15 @@ export default class KanbnBoardPanel {
             this.showTaskPanel(null, message.columnName)
             return
 
+          // Choose a template and open a webview for a new task pre-filled from it
+          case 'kanbn.addTaskFromTemplate': {
+            const template = await chooseTemplate(this.getTemplates(), false)
+            if (template != null) {
+              this.showTaskPanel(null, message.columnName, template)
+            }
+            return
+          }
+
           // Sort a column
           case 'kanbn.sortColumn': {
             // Load the index
@@ -302,16 +826,122 @@ export default class KanbnBoardPanel {
             }
             return
           }
+          // Set or clear the WIP limit for a column
+          case 'kanbn.setWipLimit': {
+            const index = await this._kanbn.getIndex()
+            const wipLimits: Record<string, number> = index.options.wipLimits ?? {}
+            const limit = await vscode.window.showInputBox({
+              prompt: `WIP limit for ${message.columnName as string} (leave empty for no limit)`,
+              value: wipLimits[message.columnName] !== undefined ? `${wipLimits[message.columnName]}` : '',
+              validateInput: (text) => {
+                return text === '' || /^[1-9]\d*$/.test(text) ? null : 'The WIP limit must be a positive whole number.'
+              }
+            })
+            if (limit === undefined) return
+            if (limit === '') {
+              // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+              delete wipLimits[message.columnName]
+            } else {
+              wipLimits[message.columnName] = Number(limit)
+            }
+            if (Object.keys(wipLimits).length > 0) {
+              index.options.wipLimits = wipLimits
+            } else {
+              delete index.options.wipLimits
+            }
+            await this._kanbn.saveIndex(index)
+            void this.update()
+            return
+          }
+
+          // Save the swimlane grouping for this board
+          case 'kanbn.setSwimlanes': {
+            const index = await this._kanbn.getIndex()
+            if (message.swimlanes != null) {
+              index.options.swimlanes = message.swimlanes
+            } else {
+              delete index.options.swimlanes
+            }
+            await this._kanbn.saveIndex(index)
+            return
+          }
+
+          // Save the webview's current filter and layout (and the board's column sorting) as a named view
+          case 'kanbn.saveView': {
+            const index = await this._kanbn.getIndex()
+            const views: any[] = index.options.views ?? []
+            const name = await vscode.window.showInputBox({
+              prompt: 'View name',
+              placeHolder: 'e.g. My work',
+              value: message.name ?? '',
+              validateInput: value => value.trim() === '' ? 'Please enter a name for this view' : null
+            })
+            if (name === undefined) return
+            const existing = views.findIndex(view => view.name === name.trim())
+            if (existing !== -1 && await vscode.window.showWarningMessage(
+              `A view called '${name.trim()}' already exists. Replace it?`, { modal: true }, 'Replace'
+            ) !== 'Replace') return
+            const view: any = {
+              name: name.trim(),
+              filter: message.filter ?? '',
+              viewMode: message.viewMode ?? 'cards',
+              focusedColumn: message.focusedColumn ?? null
+            }
+            const columnSorting = message.columnSorting ?? index.options.columnSorting ?? {}
+            if (Object.keys(columnSorting).length > 0) {
+              view.columnSorting = columnSorting
+            }
+            if (existing !== -1) {
+              views[existing] = view
+            } else {
+              views.push(view)
+            }
+            index.options.views = views
+            await this._kanbn.saveIndex(index)
+            void this.update()
+            return
+          }
+
+          // Apply a saved view
+          case 'kanbn.applyView':
+            await this.applyView(message.name)
+            return
+
+          // Delete a saved view
+          case 'kanbn.deleteView': {
+            const index = await this._kanbn.getIndex()
+            const views: any[] = index.options.views ?? []
+            if (views.length === 0) {
+              void vscode.window.showInformationMessage('This board has no saved views.')
+              return
+            }
+            const name = await vscode.window.showQuickPick(views.map(view => view.name as string), {
+              placeHolder: 'Delete view...',
+              canPickMany: false
+            })
+            if (name === undefined) return
+            index.options.views = views.filter(view => view.name !== name)
+            if (index.options.views.length === 0) {
+              delete index.options.views
+            }
+            await this._kanbn.saveIndex(index)
+            void this.update()
+            return
+          }
+
           // Bulk move multiple tasks to a target column
           case 'kanbn.bulkMove': {
             const targetColumn = message.columnName as string
             const taskIds = message.taskIds as string[]
+            if (!await this.checkWipLimit(targetColumn, taskIds)) return
             this._suppressUpdates = true
             try {
-              for (const taskId of taskIds) {
-                await this._kanbn.moveTask(taskId, targetColumn, -1)
-                await this.handleRecurrence(taskId, targetColumn)
-              }
+              await this._journal.record(`Move ${taskIds.length} task${taskIds.length === 1 ? '' : 's'} to ${targetColumn}`, taskIds, async () => {
+                for (const taskId of taskIds) {
+                  await this._kanbn.moveTask(taskId, targetColumn, -1)
+                  await this.handleRecurrence(taskId, targetColumn)
+                }
+              })
             } catch (e) {
               if (e instanceof Error) {
                 void vscode.window.showErrorMessage(e.message)
@@ -333,21 +963,7 @@ export default class KanbnBoardPanel {
           // Bulk archive multiple tasks
           case 'kanbn.bulkArchive': {
             const archiveIds = message.taskIds as string[]
-            this._suppressUpdates = true
-            try {
-              for (const taskId of archiveIds) {
-                await this._kanbn.archiveTask(taskId)
-              }
-            } catch (e) {
-              if (e instanceof Error) {
-                void vscode.window.showErrorMessage(e.message)
-              } else {
-                throw e
-              }
-            } finally {
-              this._suppressUpdates = false
-            }
-            void this.update()
+            await this.archiveTasks(archiveIds)
             if (vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true) {
               void vscode.window.showInformationMessage(
                 `Archived ${archiveIds.length} task${archiveIds.length === 1 ? '' : 's'}.`
@@ -413,12 +1029,43 @@ export default class KanbnBoardPanel {
               if (updates.tags !== undefined) {
                 task.metadata.tags = updates.tags
               }
+              if (updates.assigned !== undefined) {
+                if (updates.assigned != null && updates.assigned !== '') {
+                  task.metadata.assigned = updates.assigned
+                } else {
+                  // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+                  delete task.metadata.assigned
+                }
+              }
+              if (updates.customFields !== undefined) {
+                const customFields: Array<{ name: string, type: string }> = index.options.customFields ?? []
+                for (const [name, value] of Object.entries(updates.customFields)) {
+                  const customField = customFields.find(c => c.name === name)
+                  if (customField === undefined) continue
+                  if (value == null || value === '') {
+                    // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+                    delete task.metadata[name]
+                  } else if (customField.type === 'number') {
+                    task.metadata[name] = Number(value)
+                  } else if (customField.type === 'date') {
+                    task.metadata[name] = new Date(value as string)
+                  } else if (customField.type === 'boolean') {
+                    // Swimlane keys are strings, so 'false' has to be parsed rather than treated as a truthy value
+                    task.metadata[name] = value === true || value === 'true'
+                  } else {
+                    task.metadata[name] = value
+                  }
+                }
+              }
               // Determine column change
               const targetColumn = (updates.column != null && updates.column !== currentColumn) ? updates.column : null
-              await this._kanbn.updateTask(taskId, task, targetColumn)
-              if (targetColumn != null) {
-                await this.handleRecurrence(taskId, targetColumn)
-              }
+              if (targetColumn != null && !await this.checkWipLimit(targetColumn, [taskId])) break
+              await this._journal.record(`Update '${taskId as string}'`, [taskId], async () => {
+                await this._kanbn.updateTask(taskId, task, targetColumn)
+                if (targetColumn != null) {
+                  await this.handleRecurrence(taskId, targetColumn)
+                }
+              })
               await this.update()
             } catch (e: any) {
               void vscode.window.showErrorMessage(`Failed to update task: ${e.message as string}`)
@@ -464,6 +1111,7 @@ export default class KanbnBoardPanel {
     this.column = vscode.window.activeTextEditor?.viewColumn ?? vscode.ViewColumn.One
     this._kanbnFolderName = kanbnFolderName
     this._kanbnBurndownPanel = kanbnBurndownPanel
+    this._journal = new KanbnJournal(kanbnFolderName)
   }
 
   private _getHtmlForWebview (): string {
@@ -1,6 +1,8 @@
 import * as path from 'path'
 import * as vscode from 'vscode'
 import getNonce from './getNonce'
+import getCumulativeFlow from './getCumulativeFlow'
+import getVelocity from './getVelocity'
 import { Kanbn } from '@basementuniverse/kanbn/src/main'
 
 export default class KanbnBurndownPanel {
@@ -107,28 +109,38 @@ export default class KanbnBurndownPanel {
       return
     }
     if (this._panel != null) {
-      void this._panel.webview.postMessage({
+      const burndownData = await this._kanbn.burndown(
+        (this.sprintMode && this.sprint !== '')
+          ? [this.sprint]
+          : null,
+        (
+          !this.sprintMode &&
+          this.startDate !== '' &&
+          this.endDate !== ''
+        )
+          ? [
+              new Date(Date.parse(this.startDate)),
+              new Date(Date.parse(this.endDate))
+            ]
+          : null,
+        null,
+        null,
+        'auto'
+      )
+
+      // Count tasks per column over the same period as the burndown chart
+      const tasks = (await this._kanbn.loadAllTrackedTasks(index)).map((task) => this._kanbn.hydrateTask(index, task))
+      const series = burndownData.series[0]
+      const cumulativeFlowData = series !== undefined
+        ? getCumulativeFlow(index, tasks, new Date(series.from), new Date(series.to))
+        : null
+      void this._panel?.webview.postMessage({
         type: 'burndown',
         index,
         dateFormat: this._kanbn.getDateFormat(index),
-        burndownData: await this._kanbn.burndown(
-          (this.sprintMode && this.sprint !== '')
-            ? [this.sprint]
-            : null,
-          (
-            !this.sprintMode &&
-            this.startDate !== '' &&
-            this.endDate !== ''
-          )
-            ? [
-                new Date(Date.parse(this.startDate)),
-                new Date(Date.parse(this.endDate))
-              ]
-            : null,
-          null,
-          null,
-          'auto'
-        )
+        burndownData,
+        cumulativeFlowData,
+        velocityData: getVelocity(index, tasks)
       })
     }
   }
@@ -0,0 +1,201 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import getNonce from './getNonce'
+import KanbnJournal from './KanbnJournal'
+import resolveConflicts, { BoardConflicts, ConflictResolution, conflictTaskId, findConflicts } from './conflicts'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+
+export default class KanbnConflictPanel {
+  private static readonly viewType = 'react'
+
+  private readonly column: vscode.ViewColumn
+  private readonly _extensionPath: string
+  private readonly _workspacePath: string
+  private readonly _kanbn: Kanbn
+  private readonly _kanbnFolderName: string
+  private readonly _journal: KanbnJournal
+  private _panel: vscode.WebviewPanel | null = null
+  // The conflicts shown in the webview, which the resolution sent back by the webview applies to
+  private _conflicts: BoardConflicts = { index: null, tasks: [] }
+
+  public show (): void {
+    if (this._panel === null) {
+      this.setUpPanel()
+    }
+    this._panel?.reveal()
+    void this.update()
+  }
+
+  private setUpPanel (): void {
+    // Create and show a new webview panel
+    this._panel = vscode.window.createWebviewPanel(KanbnConflictPanel.viewType, 'Merge Conflicts', this.column, {
+      // Enable javascript in the webview
+      enableScripts: true,
+
+      // Restrict the webview to only loading content from allowed paths
+      localResourceRoots: [
+        vscode.Uri.file(path.join(this._extensionPath, 'build')),
+        vscode.Uri.file(path.join(this._kanbnFolderName, '.kanbn')),
+        vscode.Uri.file(path.join(this._extensionPath, 'node_modules', 'vscode-codicons', 'dist'))
+      ]
+    });
+    (this._panel as any).iconPath = {
+      light: vscode.Uri.file(path.join(this._extensionPath, 'resources', 'project_light.svg')),
+      dark: vscode.Uri.file(path.join(this._extensionPath, 'resources', 'project_dark.svg'))
+    }
+
+    // The index may not be readable while it has conflicts, so use the board's folder name in the title
+    this._panel.title = `${path.basename(this._kanbnFolderName)} Merge Conflicts`
+
+    // Set the webview's initial html content
+    this._panel.webview.html = this._getHtmlForWebview()
+
+    // Listen for when the panel is disposed
+    // This happens when the user closes the panel or when the panel is closed programatically
+    this._panel.onDidDispose(() => { this._panel = null })
+
+    // Handle messages from the webview
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          // Display error message
+          case 'error':
+            void vscode.window.showErrorMessage(message.text)
+            return
+
+          // Open a conflicted file in an editor, to resolve it by hand
+          case 'kanbn.openFile':
+            void vscode.commands.executeCommand('vscode.open', vscode.Uri.file(path.join(this._kanbnFolderName, '.kanbn', message.file)))
+            return
+
+          // Write the resolved files
+          case 'kanbn.resolveConflicts':
+            await this.resolve(message.resolution)
+            return
+
+          case 'kanbn.updateMe':
+            void this.update()
+        }
+      })
+  }
+
+  public static create (
+    extensionPath: string,
+    workspacePath: string,
+    kanbn: Kanbn,
+    kanbnFolderName: string,
+    journal: KanbnJournal
+  ): KanbnConflictPanel {
+    const column = (vscode.window.activeTextEditor != null) ? vscode.window.activeTextEditor.viewColumn : undefined
+    return new KanbnConflictPanel(
+      extensionPath,
+      workspacePath,
+      column ?? vscode.ViewColumn.One,
+      kanbn,
+      kanbnFolderName,
+      journal
+    )
+  }
+
+  public async update (): Promise<void> {
+    if (this._panel == null) return
+    try {
+      this._conflicts = await findConflicts(this._kanbnFolderName)
+    } catch (error) {
+      if (error instanceof Error) {
+        void vscode.window.showErrorMessage(error.message)
+      } else {
+        throw error
+      }
+      return
+    }
+    void this._panel?.webview.postMessage({
+      type: 'conflicts',
+      index: this._conflicts.index,
+      tasks: this._conflicts.tasks.map(conflict => ({ ...conflict, id: conflictTaskId(conflict) }))
+    })
+  }
+
+  private async resolve (resolution: ConflictResolution): Promise<void> {
+    try {
+      const count = await this._journal.record(
+        'Resolve merge conflicts',
+        this._conflicts.tasks.map(conflictTaskId),
+        async () => await resolveConflicts(this._conflicts, resolution)
+      )
+      const unresolved = [this._conflicts.index, ...this._conflicts.tasks].filter(c => c?.error != null).length
+      void vscode.window.showInformationMessage(
+        `Resolved conflicts in ${count} file${count === 1 ? '' : 's'}.` +
+        (unresolved > 0 ? ` ${unresolved} file${unresolved === 1 ? '' : 's'} still need${unresolved === 1 ? 's' : ''} to be resolved by hand.` : '') +
+        ' Stage the files to mark them as resolved.'
+      )
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(`Couldn't resolve the conflicts: ${e.message}`)
+      } else {
+        throw e
+      }
+    }
+    void this.update()
+  }
+
+  private constructor (
+    extensionPath: string,
+    workspacePath: string,
+    column: vscode.ViewColumn,
+    kanbn: Kanbn,
+    kanbnFolderName: string,
+    journal: KanbnJournal
+  ) {
+    this._extensionPath = extensionPath
+    this._workspacePath = workspacePath
+    this._kanbn = kanbn
+    this._kanbnFolderName = kanbnFolderName
+    this._journal = journal
+    this.column = column
+  }
+
+  private _getHtmlForWebview (): string {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const manifest = require(path.join(this._extensionPath, 'build', 'asset-manifest.json'))
+    const mainScript = manifest.files['main.js']
+    const mainStyle = manifest.files['main.css']
+    if (this._panel === null) {
+      throw new Error('panel is undefined')
+    }
+    const webview = this._panel.webview
+    const scriptUri = webview.asWebviewUri(vscode.Uri.file(path.join(this._extensionPath, 'build', mainScript)))
+
+    const styleUri = webview.asWebviewUri(vscode.Uri.file(path.join(this._extensionPath, 'build', mainStyle)))
+
+    const customStyleUri = webview.asWebviewUri(vscode.Uri.file(
+      path.join(this._kanbnFolderName, '.kanbn', 'board.css')
+    ))
+    const codiconsUri = webview.asWebviewUri(vscode.Uri.file(
+      path.join(this._extensionPath, 'node_modules', 'vscode-codicons', 'dist', 'codicon.css')
+    ))
+
+    // Use a nonce to whitelist which scripts can be run
+    const nonce = getNonce()
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1,shrink-to-fit=no">
+<meta name="theme-color" content="#000000">
+<title>Kanbn Merge Conflicts</title>
+<link rel="stylesheet" type="text/css" href="${styleUri.toString()}">
+<link rel="stylesheet" type="text/css" href="${customStyleUri.toString()}">
+<link rel="stylesheet" type="text/css" href="${codiconsUri.toString()}">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src vscode-webview-resource: https:; script-src 'nonce-${nonce}'; font-src vscode-webview-resource:; style-src vscode-webview-resource: 'unsafe-inline' http: https: data:;">
+<base href="${webview.asWebviewUri(vscode.Uri.file(path.join(this._extensionPath, 'build'))).toString()}/">
+</head>
+<body>
+<noscript>You need to enable JavaScript to run this app.</noscript>
+<div id="root-conflicts"></div>
+<script nonce="${nonce}" src="${scriptUri.toString()}"></script>
+</body>
+</html>`
+  }
+}
@@ -0,0 +1,233 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+import { customFieldTypes, recurrenceTypes } from './validateBoard'
+
+// The values used in a board's tasks and options, for completing them in its files
+interface BoardValues {
+  columnNames: string[]
+  taskIds: string[]
+  indexedTaskIds: string[]
+  tags: string[]
+  assignees: string[]
+  sprints: string[]
+  customFields: Array<{ name: string, type: string }>
+}
+
+// The metadata properties that Kanbn and this extension use in task files
+const metadataProperties: Record<string, string> = {
+  created: 'Date the task was created',
+  updated: 'Date the task was last updated',
+  started: 'Date work on the task started',
+  completed: 'Date the task was completed',
+  due: 'Date the task is due',
+  assigned: 'Person assigned to the task',
+  tags: 'List of tags',
+  priority: 'Urgent, High, Medium, Low or Lowest',
+  progress: 'Progress from 0 to 1',
+  sprint: 'Sprint the task is planned for',
+  recurrence: 'How often the task recurs',
+  attachments: 'List of attached files and links',
+  branch: 'Git branch for the task'
+}
+const dateProperties = ['created', 'updated', 'started', 'completed', 'due']
+const priorities = ['Urgent', 'High', 'Medium', 'Low', 'Lowest']
+const recurrenceProperties = ['type', 'interval', 'dayOfMonth']
+
+export default class KanbnFileCompletionProvider implements vscode.CompletionItemProvider {
+  public static readonly triggerCharacters = [':', ' ', '[', '-']
+
+  // The values used in each board, loaded when a board's file is first completed
+  private readonly _boardValues = new Map<string, Promise<BoardValues>>()
+  private readonly _getBoards: () => Map<string, Kanbn>
+
+  constructor (getBoards: () => Map<string, Kanbn>) {
+    this._getBoards = getBoards
+  }
+
+  public refresh (): void {
+    this._boardValues.clear()
+  }
+
+  public async provideCompletionItems (
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CompletionItem[]> {
+    const boardLocation = [...this._getBoards().keys()]
+      .find(board => document.uri.fsPath.startsWith(path.join(board, '.kanbn') + path.sep))
+    if (boardLocation === undefined) return []
+    const kanbnPath = path.join(boardLocation, '.kanbn')
+    const folder = path.relative(kanbnPath, path.dirname(document.uri.fsPath))
+    let values = this._boardValues.get(boardLocation)
+    if (values === undefined) {
+      values = this.loadValues(boardLocation)
+      this._boardValues.set(boardLocation, values)
+    }
+    const lines = document.getText().split(/\r?\n/)
+    const prefix = lines[position.line].slice(0, position.character)
+    if (path.relative(kanbnPath, document.uri.fsPath) === 'index.md') {
+      return this.completeIndex(lines, position.line, prefix, await values)
+    }
+    if (folder === 'tasks' || folder === 'templates') {
+      return this.completeTask(lines, position.line, prefix, await values)
+    }
+    return []
+  }
+
+  private async loadValues (boardLocation: string): Promise<BoardValues> {
+    const tasksPath = path.join(boardLocation, '.kanbn', 'tasks')
+    const values: BoardValues = {
+      columnNames: [],
+      taskIds: fs.existsSync(tasksPath)
+        ? fs.readdirSync(tasksPath).filter(file => file.endsWith('.md')).map(file => path.basename(file, '.md')).sort()
+        : [],
+      indexedTaskIds: [],
+      tags: [],
+      assignees: [],
+      sprints: [],
+      customFields: []
+    }
+    const kanbn = this._getBoards().get(boardLocation)
+    if (kanbn === undefined) return values
+    try {
+      const index = await kanbn.getIndex()
+      values.columnNames = Object.keys(index.columns)
+      values.indexedTaskIds = Object.values(index.columns).flat() as string[]
+      values.sprints = (index.options.sprints ?? []).map((sprint: any) => String(sprint.name))
+      values.customFields = (index.options.customFields ?? []).filter((c: any) => typeof c.name === 'string')
+      const tags = new Set<string>()
+      const assignees = new Set<string>()
+      for (const task of await kanbn.loadAllTrackedTasks(index)) {
+        for (const tag of task.metadata.tags ?? []) tags.add(String(tag))
+        if (typeof task.metadata.assigned === 'string' && task.metadata.assigned !== '') assignees.add(task.metadata.assigned)
+      }
+      values.tags = [...tags].sort()
+      values.assignees = [...assignees].sort()
+    } catch (e) {}
+    return values
+  }
+
+  // Find the top-level key that a line is under in a YAML block
+  private parentKey (lines: string[], line: number, start: number): string | null {
+    for (let i = line - 1; i > start; i--) {
+      const match = /^([\w-]+):/.exec(lines[i])
+      if (match !== null) return match[1]
+      if (/^\S/.test(lines[i])) return null
+    }
+    return null
+  }
+
+  private items (labels: string[], kind: vscode.CompletionItemKind, detail?: string): vscode.CompletionItem[] {
+    return labels.map(label => {
+      const item = new vscode.CompletionItem(label, kind)
+      item.detail = detail
+      return item
+    })
+  }
+
+  private completeTask (lines: string[], line: number, prefix: string, values: BoardValues): vscode.CompletionItem[] {
+    const frontMatterEnd = lines[0] === '---' ? lines.findIndex((text, i) => i > 0 && text === '---') : -1
+    if (line > 0 && line < frontMatterEnd) {
+      // Metadata property names, including the board's custom fields
+      if (/^[\w-]*$/.test(prefix)) {
+        const used = lines.slice(1, frontMatterEnd).map(text => /^([\w-]+):/.exec(text)?.[1])
+        const properties: Array<[string, string]> = [
+          ...Object.entries(metadataProperties),
+          ...values.customFields.map((c): [string, string] => [c.name, `Custom field (${c.type})`])
+        ]
+        return properties.filter(([name]) => !used.includes(name)).map(([name, detail]) => {
+          const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Property)
+          item.detail = detail
+          item.insertText = `${name}: `
+          return item
+        })
+      }
+
+      // Metadata property values
+      const property = /^([\w-]+):\s*[^\s:]*$/.exec(prefix)?.[1]
+      if (property !== undefined) {
+        const customField = values.customFields.find(c => c.name === property)
+        if (dateProperties.includes(property) || customField?.type === 'date') {
+          return this.items([new Date().toISOString()], vscode.CompletionItemKind.Value, 'Now')
+        }
+        if (customField?.type === 'boolean') return this.items(['true', 'false'], vscode.CompletionItemKind.Value)
+        switch (property) {
+          case 'assigned': return this.items(values.assignees, vscode.CompletionItemKind.User)
+          case 'priority': return this.items(priorities, vscode.CompletionItemKind.EnumMember)
+          case 'sprint': return this.items(values.sprints, vscode.CompletionItemKind.Value)
+          case 'column': return this.items(values.columnNames, vscode.CompletionItemKind.Enum)
+        }
+        return []
+      }
+
+      // Tags in the tags list
+      if (/^\s+-\s*[^\s:]*$/.test(prefix) && this.parentKey(lines, line, 0) === 'tags') {
+        return this.items(values.tags, vscode.CompletionItemKind.Keyword)
+      }
+
+      // Recurrence properties and types
+      if (this.parentKey(lines, line, 0) === 'recurrence') {
+        if (/^\s+\w*$/.test(prefix)) {
+          return recurrenceProperties.map(name => {
+            const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Property)
+            item.insertText = `${name}: `
+            return item
+          })
+        }
+        if (/^\s+type:\s*\w*$/.test(prefix)) return this.items(recurrenceTypes, vscode.CompletionItemKind.EnumMember)
+      }
+      return []
+    }
+
+    // Task ids in relations, e.g. '- [blocks other-task](other-task.md)'
+    const heading = lines.slice(0, line).reverse().find(text => /^##\s/.test(text))
+    if (heading !== undefined && /^##\s+Relations\s*$/.test(heading) && /^\s*[-*]\s*\[(?:[\w-]+\s+)?[\w-]*$/.test(prefix)) {
+      return values.taskIds.map(taskId => {
+        const item = new vscode.CompletionItem(taskId, vscode.CompletionItemKind.Reference)
+        item.insertText = `${taskId}](${taskId}.md)`
+        return item
+      })
+    }
+    return []
+  }
+
+  private completeIndex (lines: string[], line: number, prefix: string, values: BoardValues): vscode.CompletionItem[] {
+    const heading = lines.slice(0, line).reverse().find(text => /^##\s/.test(text))
+    if (heading === undefined) return []
+
+    // Options in the YAML block under the options heading
+    if (/^##\s+Options\s*$/.test(heading)) {
+      const start = lines.slice(0, line).map(text => text.trim()).lastIndexOf('```yaml')
+      if (start === -1 || lines.slice(start + 1, line).some(text => text.trim() === '```')) return []
+      const parent = this.parentKey(lines, line, start)
+      if (/^\s+-\s*[^:]*$/.test(prefix) && (parent === 'startedColumns' || parent === 'completedColumns')) {
+        return this.items(values.columnNames, vscode.CompletionItemKind.Enum)
+      }
+      if (/^\s+[^\s:]*$/.test(prefix) && parent === 'wipLimits') {
+        return values.columnNames.map(columnName => {
+          const item = new vscode.CompletionItem(columnName, vscode.CompletionItemKind.Enum)
+          item.insertText = `${columnName}: `
+          return item
+        })
+      }
+      if (/^\s+(?:-\s+)?type:\s*\w*$/.test(prefix) && parent === 'customFields') {
+        return this.items(customFieldTypes, vscode.CompletionItemKind.EnumMember)
+      }
+      return []
+    }
+
+    // Task ids in a column, offering the tasks that aren't in the index first
+    if (/^\s*[-*]\s*\[[\w-]*$/.test(prefix)) {
+      return values.taskIds.map(taskId => {
+        const indexed = values.indexedTaskIds.includes(taskId)
+        const item = new vscode.CompletionItem(taskId, vscode.CompletionItemKind.Reference)
+        item.insertText = `${taskId}](tasks/${taskId}.md)`
+        item.detail = indexed ? 'Already in the index' : 'Not in the index'
+        item.sortText = `${indexed ? 1 : 0}${taskId}`
+        return item
+      })
+    }
+    return []
+  }
+}
@@ -0,0 +1,156 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import getNonce from './getNonce'
+import { ImportedBoard } from './importBoard'
+
+export default class KanbnImportPanel {
+  private static readonly viewType = 'react'
+
+  private readonly column: vscode.ViewColumn
+  private readonly _extensionPath: string
+  private readonly _sourceName: string
+  private readonly _fileName: string
+  private readonly _board: ImportedBoard
+  // Create the board from the imported data, with a name and a column for each imported list or status. Resolves to
+  // false if the board couldn't be created, so the wizard stays open.
+  private readonly _importBoard: (board: ImportedBoard, name: string, columns: Record<string, string>) => Promise<boolean>
+  private _panel: vscode.WebviewPanel | null = null
+
+  public show (): void {
+    if (this._panel === null) {
+      this.setUpPanel()
+    }
+    this._panel?.reveal()
+    this.update()
+  }
+
+  private setUpPanel (): void {
+    // Create and show a new webview panel
+    this._panel = vscode.window.createWebviewPanel(KanbnImportPanel.viewType, 'Import Board', this.column, {
+      // Enable javascript in the webview
+      enableScripts: true,
+
+      // Restrict the webview to only loading content from allowed paths
+      localResourceRoots: [
+        vscode.Uri.file(path.join(this._extensionPath, 'build')),
+        vscode.Uri.file(path.join(this._extensionPath, 'node_modules', 'vscode-codicons', 'dist'))
+      ]
+    });
+    (this._panel as any).iconPath = {
+      light: vscode.Uri.file(path.join(this._extensionPath, 'resources', 'project_light.svg')),
+      dark: vscode.Uri.file(path.join(this._extensionPath, 'resources', 'project_dark.svg'))
+    }
+    this._panel.title = `Import ${path.basename(this._fileName)}`
+
+    // Set the webview's initial html content
+    this._panel.webview.html = this._getHtmlForWebview()
+
+    // Listen for when the panel is disposed
+    // This happens when the user closes the panel or when the panel is closed programatically
+    this._panel.onDidDispose(() => { this._panel = null })
+
+    // Handle messages from the webview
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          // Display error message
+          case 'error':
+            void vscode.window.showErrorMessage(message.text)
+            return
+
+          // Create the board
+          case 'kanbn.import':
+            if (await this._importBoard(this._board, message.name, message.columns)) {
+              this._panel?.dispose()
+            }
+            return
+
+          case 'kanbn.updateMe':
+            this.update()
+        }
+      })
+  }
+
+  public static create (
+    extensionPath: string,
+    sourceName: string,
+    fileName: string,
+    board: ImportedBoard,
+    importBoard: (board: ImportedBoard, name: string, columns: Record<string, string>) => Promise<boolean>
+  ): KanbnImportPanel {
+    const column = (vscode.window.activeTextEditor != null) ? vscode.window.activeTextEditor.viewColumn : undefined
+    return new KanbnImportPanel(
+      extensionPath,
+      column ?? vscode.ViewColumn.One,
+      sourceName,
+      fileName,
+      board,
+      importBoard
+    )
+  }
+
+  public update (): void {
+    void this._panel?.webview.postMessage({
+      type: 'import',
+      source: this._sourceName,
+      fileName: path.basename(this._fileName),
+      board: this._board
+    })
+  }
+
+  private constructor (
+    extensionPath: string,
+    column: vscode.ViewColumn,
+    sourceName: string,
+    fileName: string,
+    board: ImportedBoard,
+    importBoard: (board: ImportedBoard, name: string, columns: Record<string, string>) => Promise<boolean>
+  ) {
+    this._extensionPath = extensionPath
+    this._sourceName = sourceName
+    this._fileName = fileName
+    this._board = board
+    this._importBoard = importBoard
+    this.column = column
+  }
+
+  private _getHtmlForWebview (): string {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const manifest = require(path.join(this._extensionPath, 'build', 'asset-manifest.json'))
+    const mainScript = manifest.files['main.js']
+    const mainStyle = manifest.files['main.css']
+    if (this._panel === null) {
+      throw new Error('panel is undefined')
+    }
+    const webview = this._panel.webview
+    const scriptUri = webview.asWebviewUri(vscode.Uri.file(path.join(this._extensionPath, 'build', mainScript)))
+
+    const styleUri = webview.asWebviewUri(vscode.Uri.file(path.join(this._extensionPath, 'build', mainStyle)))
+
+    const codiconsUri = webview.asWebviewUri(vscode.Uri.file(
+      path.join(this._extensionPath, 'node_modules', 'vscode-codicons', 'dist', 'codicon.css')
+    ))
+
+    // Use a nonce to whitelist which scripts can be run
+    const nonce = getNonce()
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1,shrink-to-fit=no">
+<meta name="theme-color" content="#000000">
+<title>Kanbn Import</title>
+<link rel="stylesheet" type="text/css" href="${styleUri.toString()}">
+<link rel="stylesheet" type="text/css" href="${codiconsUri.toString()}">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src vscode-webview-resource: https:; script-src 'nonce-${nonce}'; font-src vscode-webview-resource:; style-src vscode-webview-resource: 'unsafe-inline' http: https: data:;">
+<base href="${webview.asWebviewUri(vscode.Uri.file(path.join(this._extensionPath, 'build'))).toString()}/">
+</head>
+<body>
+<noscript>You need to enable JavaScript to run this app.</noscript>
+<div id="root-import"></div>
+<script nonce="${nonce}" src="${scriptUri.toString()}"></script>
+</body>
+</html>`
+  }
+}
@@ -0,0 +1,134 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+// File contents keyed by path relative to the .kanbn folder, or null if the file doesn't exist
+type Snapshot = Map<string, string | null>
+
+interface JournalEntry {
+  label: string
+  before: Snapshot
+  after: Snapshot
+}
+
+export default class KanbnJournal {
+  private readonly _kanbnPath: string
+  private readonly _limit: number
+  private readonly _undoStack: JournalEntry[] = []
+  private readonly _redoStack: JournalEntry[] = []
+  private _depth = 0
+
+  constructor (kanbnFolderName: string, limit: number = 50) {
+    this._kanbnPath = path.join(kanbnFolderName, '.kanbn')
+    this._limit = limit
+  }
+
+  public get canUndo (): boolean {
+    return this._undoStack.length > 0
+  }
+
+  public get canRedo (): boolean {
+    return this._redoStack.length > 0
+  }
+
+  // Run a board mutation, recording the index and the files of the specified tasks before and after it ran. Task files
+  // created by the mutation (e.g. the next occurrence of a recurring task) are also recorded, so undo removes them.
+  public async record<T>(label: string, taskIds: string[], mutation: () => Promise<T>): Promise<T> {
+    // Mutations nested inside another recorded mutation are part of the outer journal entry
+    if (this._depth > 0) {
+      return await mutation()
+    }
+    const paths = ['index.md', ...taskIds.flatMap(taskId => [`tasks/${taskId}.md`, `archive/${taskId}.md`])]
+    const taskFilesBefore = this.listTaskFiles()
+    const before = this.snapshot(paths)
+    this._depth++
+    try {
+      return await mutation()
+    } finally {
+      this._depth--
+      for (const taskFile of this.listTaskFiles()) {
+        if (!taskFilesBefore.has(taskFile)) {
+          before.set(taskFile, null)
+        }
+      }
+      const after = this.snapshot([...before.keys()])
+      if ([...before].some(([file, contents]) => after.get(file) !== contents)) {
+        this._undoStack.push({ label, before, after })
+        if (this._undoStack.length > this._limit) {
+          this._undoStack.shift()
+        }
+        this._redoStack.length = 0
+      }
+    }
+  }
+
+  // Check if the files changed by the next undo have been modified since (e.g. by hand or by a git pull)
+  public undoIsStale (): boolean {
+    const entry = this._undoStack[this._undoStack.length - 1]
+    return entry !== undefined && this.isStale(entry.after)
+  }
+
+  // Check if the files changed by the next redo have been modified since they were restored
+  public redoIsStale (): boolean {
+    const entry = this._redoStack[this._redoStack.length - 1]
+    return entry !== undefined && this.isStale(entry.before)
+  }
+
+  // Restore the files from before the last recorded mutation, and return the mutation's label
+  public undo (): string | null {
+    const entry = this._undoStack.pop()
+    if (entry === undefined) return null
+    this.restore(entry.before)
+    this._redoStack.push(entry)
+    return entry.label
+  }
+
+  // Restore the files from after the last undone mutation, and return the mutation's label
+  public redo (): string | null {
+    const entry = this._redoStack.pop()
+    if (entry === undefined) return null
+    this.restore(entry.after)
+    this._undoStack.push(entry)
+    return entry.label
+  }
+
+  private isStale (expected: Snapshot): boolean {
+    const current = this.snapshot([...expected.keys()])
+    return [...expected].some(([file, contents]) => current.get(file) !== contents)
+  }
+
+  private snapshot (files: string[]): Snapshot {
+    const snapshot: Snapshot = new Map()
+    for (const file of files) {
+      const filePath = path.join(this._kanbnPath, file)
+      snapshot.set(file, fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null)
+    }
+    return snapshot
+  }
+
+  private restore (snapshot: Snapshot): void {
+    for (const [file, contents] of snapshot) {
+      const filePath = path.join(this._kanbnPath, file)
+      if (contents === null) {
+        if (fs.existsSync(filePath)) {
+          fs.unlinkSync(filePath)
+        }
+      } else {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true })
+        fs.writeFileSync(filePath, contents)
+      }
+    }
+  }
+
+  private listTaskFiles (): Set<string> {
+    const taskFiles = new Set<string>()
+    for (const folder of ['tasks', 'archive']) {
+      const folderPath = path.join(this._kanbnPath, folder)
+      if (fs.existsSync(folderPath)) {
+        for (const file of fs.readdirSync(folderPath)) {
+          taskFiles.add(`${folder}/${file}`)
+        }
+      }
+    }
+    return taskFiles
+  }
+}
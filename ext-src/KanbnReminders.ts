@@ -0,0 +1,230 @@
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+
+type ReminderKind = 'before' | 'due' | 'overdue'
+
+interface Reminder {
+  kind: ReminderKind
+  boardLocation: string
+  taskId: string
+  taskName: string
+  columnName: string
+  due: Date
+  // Identifies this reminder, so it's only shown once (or once a day for overdue tasks)
+  key: string
+}
+
+// Reminders that have been shown and tasks that have been snoozed, kept in the workspace state
+interface ReminderState {
+  // The time each reminder was shown, by reminder key
+  shown: Record<string, number>
+  // The time each task is snoozed until, by board location and task id
+  snoozed: Record<string, number>
+}
+
+const hour = 60 * 60 * 1000
+const day = 24 * hour
+
+// How long to remember that a reminder was shown
+const keepShown = 60 * day
+
+// Show at most this many reminders at once, and summarise the rest in one notification
+const maxNotifications = 3
+
+const snoozeOptions: Array<{ label: string, duration: number }> = [
+  { label: '1 hour', duration: hour },
+  { label: '4 hours', duration: 4 * hour },
+  { label: '1 day', duration: day }
+]
+
+// Parse the quiet hours setting, e.g. '22:00-08:00', into minutes after midnight
+export function parseQuietHours (setting: string): { start: number, end: number } | null {
+  const match = /^\s*(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})\s*$/.exec(setting)
+  if (match === null) return null
+  const [startHours, startMinutes, endHours, endMinutes] = match.slice(1).map(n => parseInt(n))
+  if (startHours > 23 || endHours > 23 || startMinutes > 59 || endMinutes > 59) return null
+  return { start: startHours * 60 + startMinutes, end: endHours * 60 + endMinutes }
+}
+
+// Check if a time is in the quiet hours, which can wrap past midnight
+export function inQuietHours (now: Date, quietHours: { start: number, end: number } | null): boolean {
+  if (quietHours === null || quietHours.start === quietHours.end) return false
+  const minutes = now.getHours() * 60 + now.getMinutes()
+  return quietHours.start < quietHours.end
+    ? minutes >= quietHours.start && minutes < quietHours.end
+    : minutes >= quietHours.start || minutes < quietHours.end
+}
+
+function localDate (date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`
+}
+
+function plural (n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? '' : 's'}`
+}
+
+// Schedules reminders for tasks that are due soon, due today or overdue. Reminders are checked in the extension host,
+// so they're shown whether or not a board is open.
+export default class KanbnReminders implements vscode.Disposable {
+  private static readonly stateKey = 'kanbn.reminders'
+  private static readonly checkInterval = 5 * 60 * 1000
+
+  private readonly _context: vscode.ExtensionContext
+  private readonly _getBoards: () => Map<string, Kanbn>
+  private readonly _openTask: (boardLocation: string, taskId: string, columnName: string) => void
+  private readonly _markDone: (boardLocation: string, taskId: string) => Promise<void>
+  private readonly _timer: ReturnType<typeof setInterval>
+  private _checking = false
+
+  constructor (
+    context: vscode.ExtensionContext,
+    getBoards: () => Map<string, Kanbn>,
+    openTask: (boardLocation: string, taskId: string, columnName: string) => void,
+    markDone: (boardLocation: string, taskId: string) => Promise<void>
+  ) {
+    this._context = context
+    this._getBoards = getBoards
+    this._openTask = openTask
+    this._markDone = markDone
+    this._timer = setInterval(() => { void this.check() }, KanbnReminders.checkInterval)
+  }
+
+  public dispose (): void {
+    clearInterval(this._timer)
+  }
+
+  // Show any reminders that are due, unless notifications are turned off or it's currently quiet hours
+  public async check (): Promise<void> {
+    const config = vscode.workspace.getConfiguration('kanbn')
+    if (this._checking || config.get<boolean>('showTaskNotifications') !== true) return
+    const now = new Date()
+    if (inQuietHours(now, parseQuietHours(config.get<string>('quietHours') ?? ''))) return
+    this._checking = true
+    try {
+      const state = this.loadState(now)
+      const reminders: Reminder[] = []
+      for (const [boardLocation, kanbn] of this._getBoards()) {
+        try {
+          reminders.push(...await this.boardReminders(boardLocation, kanbn, now, config.get<number>('reminderHoursBefore') ?? 24))
+        } catch (e) {
+          // Boards that can't be loaded are reported when they're opened
+        }
+      }
+      const pending = reminders.filter(reminder =>
+        !(reminder.key in state.shown) &&
+        (state.snoozed[`${reminder.boardLocation}\n${reminder.taskId}`] ?? 0) <= now.getTime()
+      )
+      if (pending.length === 0) return
+      for (const reminder of pending) {
+        state.shown[reminder.key] = now.getTime()
+      }
+      await this._context.workspaceState.update(KanbnReminders.stateKey, state)
+      pending.slice(0, maxNotifications).forEach(reminder => { void this.notify(reminder) })
+      if (pending.length > maxNotifications) {
+        void this.notifyMore(pending.slice(maxNotifications), now)
+      }
+    } finally {
+      this._checking = false
+    }
+  }
+
+  // Load the reminder state, forgetting reminders that were shown a long time ago and snoozes that have ended
+  private loadState (now: Date): ReminderState {
+    const state = this._context.workspaceState.get<ReminderState>(KanbnReminders.stateKey) ?? { shown: {}, snoozed: {} }
+    return {
+      shown: Object.fromEntries(Object.entries(state.shown ?? {}).filter(([, time]) => now.getTime() - time < keepShown)),
+      snoozed: Object.fromEntries(Object.entries(state.snoozed ?? {}).filter(([, time]) => time > now.getTime()))
+    }
+  }
+
+  // Get the reminders for a board's unfinished tasks that have a due date
+  private async boardReminders (boardLocation: string, kanbn: Kanbn, now: Date, hoursBefore: number): Promise<Reminder[]> {
+    const index = await kanbn.getIndex()
+    const completedColumns: string[] = index.options.completedColumns ?? []
+    const columnNames = new Map<string, string>()
+    for (const [columnName, taskIds] of Object.entries(index.columns)) {
+      for (const taskId of taskIds as string[]) columnNames.set(taskId, columnName)
+    }
+    const reminders: Reminder[] = []
+    for (const task of await kanbn.loadAllTrackedTasks(index)) {
+      const columnName = columnNames.get(task.id)
+      if (columnName === undefined || completedColumns.includes(columnName)) continue
+      if (task.metadata.due == null || task.metadata.completed != null) continue
+      const due = new Date(task.metadata.due)
+      if (isNaN(due.getTime())) continue
+      const reminder = { boardLocation, taskId: task.id, taskName: String(task.name), columnName, due }
+      const key = `${boardLocation}\n${String(task.id)}\n${due.toISOString()}`
+      if (localDate(due) === localDate(now)) {
+        reminders.push({ ...reminder, kind: 'due', key: `${key}\ndue` })
+      } else if (due.getTime() < now.getTime()) {
+        reminders.push({ ...reminder, kind: 'overdue', key: `${key}\noverdue\n${localDate(now)}` })
+      } else if (hoursBefore > 0 && due.getTime() - now.getTime() <= hoursBefore * hour) {
+        reminders.push({ ...reminder, kind: 'before', key: `${key}\nbefore` })
+      }
+    }
+    return reminders
+  }
+
+  private message (reminder: Reminder, now: Date): string {
+    switch (reminder.kind) {
+      case 'before':
+        return `'${reminder.taskName}' is due in ${plural(Math.ceil((reminder.due.getTime() - now.getTime()) / hour), 'hour')}.`
+      case 'due':
+        return `'${reminder.taskName}' is due today.`
+      case 'overdue': {
+        const start = (date: Date): number => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+        return `'${reminder.taskName}' is overdue by ${plural(Math.round((start(now) - start(reminder.due)) / day), 'day')}.`
+      }
+    }
+  }
+
+  private async notify (reminder: Reminder): Promise<void> {
+    const show = reminder.kind === 'overdue' ? vscode.window.showWarningMessage : vscode.window.showInformationMessage
+    const action = await show(this.message(reminder, new Date()), 'Open', 'Mark done', 'Snooze')
+    switch (action) {
+      case 'Open':
+        this._openTask(reminder.boardLocation, reminder.taskId, reminder.columnName)
+        break
+      case 'Mark done':
+        await this._markDone(reminder.boardLocation, reminder.taskId)
+        break
+      case 'Snooze':
+        await this.snooze([reminder])
+        break
+    }
+  }
+
+  // Summarise reminders that weren't shown individually, and let the user pick a task to open
+  private async notifyMore (reminders: Reminder[], now: Date): Promise<void> {
+    const action = await vscode.window.showInformationMessage(
+      `${plural(reminders.length, 'more task')} ${reminders.length === 1 ? 'is' : 'are'} due soon or overdue.`,
+      'Show',
+      'Snooze all'
+    )
+    if (action === 'Snooze all') {
+      await this.snooze(reminders)
+      return
+    }
+    if (action !== 'Show') return
+    const picked = await vscode.window.showQuickPick(
+      reminders.map(reminder => ({ label: reminder.taskName, detail: this.message(reminder, now), reminder })),
+      { placeHolder: 'Open a task' }
+    )
+    if (picked !== undefined) {
+      this._openTask(picked.reminder.boardLocation, picked.reminder.taskId, picked.reminder.columnName)
+    }
+  }
+
+  // Hide reminders for the tasks for a while, and show them again once the snooze ends
+  private async snooze (reminders: Reminder[]): Promise<void> {
+    const picked = await vscode.window.showQuickPick(snoozeOptions, { placeHolder: 'Snooze for...' })
+    if (picked === undefined) return
+    const state = this.loadState(new Date())
+    for (const reminder of reminders) {
+      state.snoozed[`${reminder.boardLocation}\n${reminder.taskId}`] = Date.now() + picked.duration
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete state.shown[reminder.key]
+    }
+    await this._context.workspaceState.update(KanbnReminders.stateKey, state)
+  }
+}
@@ -0,0 +1,396 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import getNonce from './getNonce'
+import KanbnJournal from './KanbnJournal'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+
+export default class KanbnSprintPanel {
+  private static readonly viewType = 'react'
+
+  private readonly column: vscode.ViewColumn
+  private readonly _extensionPath: string
+  private readonly _workspacePath: string
+  private readonly _kanbn: Kanbn
+  private readonly _kanbnFolderName: string
+  private readonly _showTaskPanel: (taskId: string, columnName: string | null) => void
+  private readonly _journal: KanbnJournal
+  private _panel: vscode.WebviewPanel | null = null
+
+  public show (): void {
+    if (this._panel === null) {
+      this.setUpPanel()
+    }
+    this._panel?.reveal()
+    void this.update()
+  }
+
+  private setUpPanel (): void {
+    // Create and show a new webview panel
+    this._panel = vscode.window.createWebviewPanel(KanbnSprintPanel.viewType, 'Sprints', this.column, {
+      // Enable javascript in the webview
+      enableScripts: true,
+
+      // Restrict the webview to only loading content from allowed paths
+      localResourceRoots: [
+        vscode.Uri.file(path.join(this._extensionPath, 'build')),
+        vscode.Uri.file(path.join(this._kanbnFolderName, '.kanbn')),
+        vscode.Uri.file(path.join(this._extensionPath, 'node_modules', 'vscode-codicons', 'dist'))
+      ]
+    });
+    (this._panel as any).iconPath = {
+      light: vscode.Uri.file(path.join(this._extensionPath, 'resources', 'sprint_light.svg')),
+      dark: vscode.Uri.file(path.join(this._extensionPath, 'resources', 'sprint_dark.svg'))
+    }
+
+    // Set the webview's title to the kanbn project name
+    void this._kanbn.getIndex().then((index) => {
+      if (this._panel !== null) this._panel.title = `${index.name as string} Sprints`
+    })
+
+    // Set the webview's initial html content
+    this._panel.webview.html = this._getHtmlForWebview()
+
+    // Listen for when the panel is disposed
+    // This happens when the user closes the panel or when the panel is closed programatically
+    this._panel.onDidDispose(() => { this._panel = null })
+
+    // Handle messages from the webview
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          // Display error message
+          case 'error':
+            void vscode.window.showErrorMessage(message.text)
+            return
+
+          // Open a task in the task editor
+          case 'kanbn.task':
+            this._showTaskPanel(message.taskId, message.columnName ?? null)
+            return
+
+          // Create a new sprint from the planning form
+          case 'kanbn.createSprint':
+            await this.createSprint(message.sprint)
+            void this.update()
+            return
+
+          // Choose tasks to add to a sprint
+          case 'kanbn.addSprintTasks':
+            await this.addSprintTasks(message.sprint)
+            void this.update()
+            return
+
+          // Remove a task from its sprint
+          case 'kanbn.removeSprintTask':
+            try {
+              await this.setTaskSprint([message.taskId], null)
+            } catch (e) {
+              if (e instanceof Error) {
+                void vscode.window.showErrorMessage(e.message)
+              } else {
+                throw e
+              }
+            }
+            void this.update()
+            return
+
+          // Close a sprint, optionally carrying its unfinished tasks over to another sprint
+          case 'kanbn.closeSprint':
+            await this.closeSprint(message.sprint)
+            void this.update()
+            return
+
+          case 'kanbn.updateMe':
+            void this.update()
+        }
+      })
+  }
+
+  public static create (
+    extensionPath: string,
+    workspacePath: string,
+    kanbn: Kanbn,
+    kanbnFolderName: string,
+    showTaskPanel: (taskId: string, columnName: string | null) => void,
+    journal: KanbnJournal
+  ): KanbnSprintPanel {
+    const column = (vscode.window.activeTextEditor != null) ? vscode.window.activeTextEditor.viewColumn : undefined
+    return new KanbnSprintPanel(
+      extensionPath,
+      workspacePath,
+      column ?? vscode.ViewColumn.One,
+      kanbn,
+      kanbnFolderName,
+      showTaskPanel,
+      journal
+    )
+  }
+
+  public async update (): Promise<void> {
+    if (this._panel == null) return
+    let index: any
+    let tasks: any[]
+    try {
+      index = await this._kanbn.getIndex()
+      tasks = (await this._kanbn.loadAllTrackedTasks(index)).map((task) => this._kanbn.hydrateTask(index, task))
+    } catch (error) {
+      if (error instanceof Error) {
+        void vscode.window.showErrorMessage(error.message)
+      } else {
+        throw error
+      }
+      return
+    }
+    void this._panel?.webview.postMessage({
+      type: 'sprint',
+      index,
+      sprints: index.options.sprints ?? [],
+      tasks,
+      completedColumns: index.options.completedColumns ?? [],
+      dateFormat: this._kanbn.getDateFormat(index)
+    })
+  }
+
+  // Check if a task is finished, either because it has a completed date or because it's in a completed column
+  private isCompleted (index: any, task: any): boolean {
+    return task.metadata.completed != null || (index.options.completedColumns ?? []).includes(task.column)
+  }
+
+  private async createSprint (sprint: { name: string, description: string, goal: string, start: string, end: string }): Promise<void> {
+    try {
+      const name = sprint.name.trim()
+      if (name === '') {
+        throw new Error('A sprint must have a name.')
+      }
+      const start = new Date(sprint.start)
+      const end = new Date(sprint.end)
+      if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+        throw new Error('A sprint must have a start date and an end date.')
+      }
+      if (end < start) {
+        throw new Error('A sprint can\'t end before it starts.')
+      }
+      await this._journal.record(`Create sprint "${name}"`, [], async () => {
+        const index = await this._kanbn.getIndex()
+        const sprints: any[] = index.options.sprints ?? []
+        if (sprints.some(s => s.name === name)) {
+          throw new Error(`A sprint called "${name}" already exists.`)
+        }
+        sprints.push({
+          start,
+          end,
+          name,
+          description: sprint.description.trim(),
+          ...(sprint.goal.trim() !== '' ? { goal: sprint.goal.trim() } : {})
+        })
+        index.options.sprints = sprints
+        await this._kanbn.saveIndex(index)
+      })
+      if (vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true) {
+        void vscode.window.showInformationMessage(`Created sprint "${name}".`)
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(e.message)
+      } else {
+        throw e
+      }
+    }
+  }
+
+  private async addSprintTasks (sprintName: string): Promise<void> {
+    try {
+      const index = await this._kanbn.getIndex()
+      const tasks = (await this._kanbn.loadAllTrackedTasks(index)).map((task) => this._kanbn.hydrateTask(index, task))
+      const items: Array<vscode.QuickPickItem & { taskId: string }> = tasks
+        .filter(task => task.metadata.sprint !== sprintName && !this.isCompleted(index, task))
+        .map(task => ({
+          label: task.name,
+          description: task.column,
+          detail: task.metadata.sprint !== undefined ? `In sprint ${String(task.metadata.sprint)}` : undefined,
+          taskId: task.id
+        }))
+      if (items.length === 0) {
+        void vscode.window.showInformationMessage('There are no unfinished tasks to add to this sprint.')
+        return
+      }
+      const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: `Select tasks to add to ${sprintName}`,
+        canPickMany: true,
+        matchOnDescription: true
+      })
+      if (picked === undefined || picked.length === 0) return
+      await this.setTaskSprint(picked.map(item => item.taskId), sprintName)
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(e.message)
+      } else {
+        throw e
+      }
+    }
+  }
+
+  // Set the sprint that some tasks belong to, or remove them from their sprint if sprintName is null
+  private async setTaskSprint (taskIds: string[], sprintName: string | null): Promise<void> {
+    const count = `${taskIds.length} task${taskIds.length === 1 ? '' : 's'}`
+    await this._journal.record(
+      sprintName !== null ? `Add ${count} to sprint "${sprintName}"` : `Remove ${count} from their sprint`,
+      taskIds,
+      async () => {
+        for (const taskId of taskIds) {
+          const task = await this._kanbn.getTask(taskId)
+          if (sprintName !== null) {
+            task.metadata.sprint = sprintName
+          } else {
+            delete task.metadata.sprint
+          }
+          task.metadata.updated = new Date()
+          await this._kanbn.updateTask(taskId, task)
+        }
+      }
+    )
+  }
+
+  private async closeSprint (sprintName: string): Promise<void> {
+    try {
+      let index = await this._kanbn.getIndex()
+      const sprints: any[] = index.options.sprints ?? []
+      const sprint = sprints.find(s => s.name === sprintName)
+      if (sprint === undefined) {
+        throw new Error(`Sprint "${sprintName}" doesn't exist.`)
+      }
+      if (sprint.closed != null) {
+        throw new Error(`Sprint "${sprintName}" is already closed.`)
+      }
+      const tasks: any[] = (await this._kanbn.loadAllTrackedTasks(index))
+        .map((task) => this._kanbn.hydrateTask(index, task))
+        .filter(task => task.metadata.sprint === sprintName)
+      const completed = tasks.filter(task => this.isCompleted(index, task))
+      const unfinished = tasks.filter(task => !this.isCompleted(index, task))
+
+      // Choose what to do with unfinished tasks, or just confirm if there aren't any
+      let carriedOverTo: string | null = null
+      if (unfinished.length > 0) {
+        const items: Array<vscode.QuickPickItem & { sprint: string | null }> = [
+          ...sprints
+            .filter(s => s.name !== sprintName && s.closed == null)
+            .map(s => ({ label: `Carry over to ${String(s.name)}`, sprint: s.name })),
+          { label: 'Remove unfinished tasks from the sprint', sprint: null }
+        ]
+        const picked = await vscode.window.showQuickPick(items, {
+          placeHolder: `${unfinished.length} unfinished task${unfinished.length === 1 ? '' : 's'} in ${sprintName}`
+        })
+        if (picked === undefined) return
+        carriedOverTo = picked.sprint
+      } else if (await vscode.window.showInformationMessage(
+        `Close sprint "${sprintName}"?`, { modal: true }, 'Close sprint'
+      ) !== 'Close sprint') {
+        return
+      }
+
+      // The board may have changed while choosing what to do with unfinished tasks, so check the sprint again before
+      // changing anything
+      const getOpenSprint = async (): Promise<any> => {
+        index = await this._kanbn.getIndex()
+        const openSprint = (index.options.sprints ?? []).find(s => s.name === sprintName)
+        if (openSprint === undefined) {
+          throw new Error(`Sprint "${sprintName}" was renamed or removed before it could be closed.`)
+        }
+        if (openSprint.closed != null) {
+          throw new Error(`Sprint "${sprintName}" is already closed.`)
+        }
+        return openSprint
+      }
+      await getOpenSprint()
+      await this._journal.record(`Close sprint "${sprintName}"`, unfinished.map(task => task.id), async () => {
+        if (unfinished.length > 0) {
+          await this.setTaskSprint(unfinished.map(task => task.id), carriedOverTo)
+        }
+
+        // Record the close-out report with the sprint
+        const workload = (sprintTasks: any[]): number => sprintTasks.reduce((a: number, task) => a + Number(task.workload ?? 0), 0)
+        const closedSprint = await getOpenSprint()
+        closedSprint.closed = new Date()
+        closedSprint.report = {
+          completed: completed.map(task => task.id),
+          unfinished: unfinished.map(task => task.id),
+          committedWorkload: workload(tasks),
+          completedWorkload: workload(completed),
+          carriedOverTo
+        }
+        await this._kanbn.saveIndex(index)
+      })
+      void vscode.window.showInformationMessage(
+        `Closed sprint "${sprintName}": ${completed.length} of ${tasks.length} task${tasks.length === 1 ? '' : 's'} completed.`
+      )
+    } catch (e) {
+      if (e instanceof Error) {
+        void vscode.window.showErrorMessage(e.message)
+      } else {
+        throw e
+      }
+    }
+  }
+
+  private constructor (
+    extensionPath: string,
+    workspacePath: string,
+    column: vscode.ViewColumn,
+    kanbn: Kanbn,
+    kanbnFolderName: string,
+    showTaskPanel: (taskId: string, columnName: string | null) => void,
+    journal: KanbnJournal
+  ) {
+    this._extensionPath = extensionPath
+    this._workspacePath = workspacePath
+    this._kanbn = kanbn
+    this._kanbnFolderName = kanbnFolderName
+    this._showTaskPanel = showTaskPanel
+    this._journal = journal
+    this.column = column
+  }
+
+  private _getHtmlForWebview (): string {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const manifest = require(path.join(this._extensionPath, 'build', 'asset-manifest.json'))
+    const mainScript = manifest.files['main.js']
+    const mainStyle = manifest.files['main.css']
+    if (this._panel === null) {
+      throw new Error('panel is undefined')
+    }
+    const webview = this._panel.webview
+    const scriptUri = webview.asWebviewUri(vscode.Uri.file(path.join(this._extensionPath, 'build', mainScript)))
+
+    const styleUri = webview.asWebviewUri(vscode.Uri.file(path.join(this._extensionPath, 'build', mainStyle)))
+
+    const customStyleUri = webview.asWebviewUri(vscode.Uri.file(
+      path.join(this._kanbnFolderName, '.kanbn', 'board.css')
+    ))
+    const codiconsUri = webview.asWebviewUri(vscode.Uri.file(
+      path.join(this._extensionPath, 'node_modules', 'vscode-codicons', 'dist', 'codicon.css')
+    ))
+
+    // Use a nonce to whitelist which scripts can be run
+    const nonce = getNonce()
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1,shrink-to-fit=no">
+<meta name="theme-color" content="#000000">
+<title>Kanbn Sprints</title>
+<link rel="stylesheet" type="text/css" href="${styleUri.toString()}">
+<link rel="stylesheet" type="text/css" href="${customStyleUri.toString()}">
+<link rel="stylesheet" type="text/css" href="${codiconsUri.toString()}">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src vscode-webview-resource: https:; script-src 'nonce-${nonce}'; font-src vscode-webview-resource:; style-src vscode-webview-resource: 'unsafe-inline' http: https: data:;">
+<base href="${webview.asWebviewUri(vscode.Uri.file(path.join(this._extensionPath, 'build'))).toString()}/">
+</head>
+<body>
+<noscript>You need to enable JavaScript to run this app.</noscript>
+<div id="root-sprint"></div>
+<script nonce="${nonce}" src="${scriptUri.toString()}"></script>
+</body>
+</html>`
+  }
+}
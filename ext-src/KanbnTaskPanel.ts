@@ -2,7 +2,18 @@ import * as fs from 'fs'
 import * as path from 'path'
 import * as vscode from 'vscode'
 import getNonce from './getNonce'
+import KanbnJournal from './KanbnJournal'
+import { KanbnTemplate } from './templates'
+import { Repository, getGitApi } from './git'
+import getTaskHistory, { TaskRevision } from './taskHistory'
 import { Kanbn } from '@basementuniverse/kanbn/src/main'
+import { md2json } from '@basementuniverse/kanbn/src/parse-task'
+
+// Metadata properties that are edited in the task editor. Other properties (e.g. a task's sprint) are kept as they are
+// when a task is updated.
+const editorMetadata = [
+  'created', 'updated', 'assigned', 'progress', 'tags', 'priority', 'attachments', 'recurrence', 'due', 'started', 'completed'
+]
 
 function transformTaskData (
   taskData: any,
@@ -110,6 +121,10 @@ export default class KanbnTaskPanel {
   private readonly _kanbnFolderName: string
   private _taskId: string | null
   private readonly _defaultColumn: string | null
+  private readonly _template: KanbnTemplate | null
+  private readonly _startWork: (taskId: string) => Promise<void>
+  private readonly _journal: KanbnJournal
+  private readonly _updateBoard: () => Promise<void>
   private readonly _disposables: vscode.Disposable[] = []
 
   public async show (): Promise<void> {
@@ -124,7 +139,11 @@ export default class KanbnTaskPanel {
     kanbnFolderName: string,
     taskId: string | null,
     defaultColumn: string | null,
-    taskCache: Map<string, KanbnTaskPanel>
+    taskCache: Map<string, KanbnTaskPanel>,
+    startWork: (taskId: string) => Promise<void>,
+    journal: KanbnJournal,
+    updateBoard: () => Promise<void>,
+    template: KanbnTemplate | null = null
   ) {
     const column = vscode.window.activeTextEditor?.viewColumn ?? vscode.ViewColumn.One
     this._extensionPath = extensionPath
@@ -133,6 +152,10 @@ export default class KanbnTaskPanel {
     this._kanbnFolderName = kanbnFolderName
     this._taskId = taskId
     this._defaultColumn = defaultColumn
+    this._template = template
+    this._startWork = startWork
+    this._journal = journal
+    this._updateBoard = updateBoard
 
     // Create and show a new webview panel
     this._panel = vscode.window.createWebviewPanel(KanbnTaskPanel.viewType, 'New task', column, {
@@ -208,9 +231,17 @@ export default class KanbnTaskPanel {
                 void vscode.window.showInformationMessage(`Created task '${String(message.taskData.name)}'.`)
               }
             } else {
+              const taskData = transformTaskData(message.taskData, message.customFields)
+              const existingMetadata = (await this._kanbn.getTask(this._taskId)).metadata
+              const customFieldNames: string[] = (message.taskData.customFields ?? []).map((customField: { name: string }) => customField.name)
+              for (const key of Object.keys(existingMetadata)) {
+                if (!editorMetadata.includes(key) && !customFieldNames.includes(key)) {
+                  taskData.metadata[key] = existingMetadata[key]
+                }
+              }
               await this._kanbn.updateTask(
                 this._taskId,
-                transformTaskData(message.taskData, message.customFields),
+                taskData,
                 message.taskData.column
               )
               if (this._taskId !== message.taskData.id) {
@@ -260,6 +291,69 @@ export default class KanbnTaskPanel {
             return
           }
 
+          // Check out the task's branch and move it to the first started column
+          case 'kanbn.startWork':
+            if (this._taskId !== null) {
+              await this._startWork(this._taskId)
+              void this.update()
+            }
+            return
+
+          // Load the task's history from git
+          case 'kanbn.history':
+            await this.sendHistory()
+            return
+
+          // Show the changes a commit made to the task file
+          case 'kanbn.historyDiff': {
+            const gitApi = await getGitApi()
+            if (gitApi === null || this._taskId === null) return
+            const taskUri = vscode.Uri.file(this.taskFilePath(this._taskId))
+            const hash: string = message.hash
+            const title = `${this._taskId}.md (${hash.slice(0, 7)})`
+            if (message.hasParent === true) {
+              void vscode.commands.executeCommand('vscode.diff', gitApi.toGitUri(taskUri, `${hash}~1`), gitApi.toGitUri(taskUri, hash), title)
+            } else {
+              void vscode.commands.executeCommand('vscode.open', gitApi.toGitUri(taskUri, hash))
+            }
+            return
+          }
+
+          // Restore the task file from a commit
+          case 'kanbn.restoreRevision': {
+            const repository = await this.getRepository()
+            const taskId = this._taskId
+            if (repository === null || taskId === null) return
+            const hash: string = message.hash
+            const taskName: string = (await this._kanbn.getTask(taskId)).name
+            if (await vscode.window.showWarningMessage(
+              `Restore task '${taskName}' to the version from commit ${hash.slice(0, 7)}? Unsaved changes in the task editor will be lost.`,
+              { modal: true },
+              'Restore'
+            ) !== 'Restore') return
+            try {
+              const taskPath = this.taskFilePath(taskId)
+              const contents = await repository.show(hash, taskPath)
+              md2json(contents)
+              await this._journal.record(`Restore '${taskId}' from commit ${hash.slice(0, 7)}`, [taskId], async () => {
+                await fs.promises.writeFile(taskPath, contents)
+              })
+            } catch (e) {
+              if (e instanceof Error) {
+                void vscode.window.showErrorMessage(`Couldn't restore the task: ${e.message}`)
+                return
+              } else {
+                throw e
+              }
+            }
+            void this._panel.webview.postMessage({ ...await this._getTaskData(), reset: true })
+            void this._updateBoard()
+            if (vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') ?? true) {
+              void vscode.window.showInformationMessage(`Restored task '${taskName}' from commit ${hash.slice(0, 7)}.`)
+            }
+            return
+          }
+
           // Pick a file to attach
           case 'kanbn.pickFile': {
             const fileUris = await vscode.window.showOpenDialog({
@@ -306,8 +400,16 @@ export default class KanbnTaskPanel {
               }
             } else if (attType === 'link') {
               const target: string = message.url ?? message.path ?? ''
+              // Links to a line in a workspace file, e.g. from a TODO comment, look like 'src/file.ts:12'
+              const fileLine = target.match(/^(.+):(\d+)$/)
+              const linkedFile = fileLine !== null ? path.resolve(this._workspacePath, fileLine[1]) : null
               if (target.startsWith('http://') || target.startsWith('https://')) {
                 void vscode.env.openExternal(vscode.Uri.parse(target))
+              } else if (fileLine !== null && linkedFile !== null && fs.existsSync(linkedFile)) {
+                const position = new vscode.Position(Math.max(0, Number(fileLine[2]) - 1), 0)
+                void vscode.window.showTextDocument(vscode.Uri.file(linkedFile), {
+                  selection: new vscode.Range(position, position)
+                })
               } else if (fs.existsSync(target)) {
                 void vscode.commands.executeCommand('vscode.open', vscode.Uri.file(target))
               } else {
@@ -333,6 +435,38 @@ export default class KanbnTaskPanel {
     }
   }
 
+  private taskFilePath (taskId: string): string {
+    return path.join(this._kanbnFolderName, '.kanbn', 'tasks', `${taskId}.md`)
+  }
+
+  // Get the git repository containing the board, showing an error if there isn't one
+  private async getRepository (): Promise<Repository | null> {
+    const gitApi = await getGitApi()
+    const repository = gitApi?.getRepository(vscode.Uri.file(this._kanbnFolderName)) ?? null
+    if (repository === null) {
+      void vscode.window.showErrorMessage('Task history needs the board to be in a git repository, and the built-in Git extension to be enabled.')
+    }
+    return repository
+  }
+
+  // Send the task's history to the webview
+  private async sendHistory (): Promise<void> {
+    let history: TaskRevision[] | null = null
+    const repository = await this.getRepository()
+    if (repository !== null && this._taskId !== null) {
+      try {
+        history = await getTaskHistory(repository, this._kanbnFolderName, this._taskId)
+      } catch (e) {
+        if (e instanceof Error) {
+          void vscode.window.showErrorMessage(`Couldn't load the task history: ${e.message}`)
+        } else {
+          throw e
+        }
+      }
+    }
+    void this._panel.webview.postMessage({ command: 'history', history })
+  }
+
   private async _getTaskData (): Promise<any> {
     let index: any
     try {
@@ -363,8 +497,11 @@ export default class KanbnTaskPanel {
       task = tasks.find((t) => t.id === this._taskId) ?? null
     }
 
-    // Use column of task, or first column if task doesn't exist yet.
-    const columnName = task?.column ?? this._defaultColumn ?? Object.keys(index.columns)[0]
+    // Use column of task, or the template's column or first column if task doesn't exist yet.
+    const templateColumn = this._template?.column != null && this._template.column in index.columns
+      ? this._template.column
+      : null
+    const columnName = task?.column ?? this._defaultColumn ?? templateColumn ?? Object.keys(index.columns)[0]
 
     // Compute relative task path for Copy T+P button
     const taskPath = this._taskId !== null
@@ -380,7 +517,8 @@ export default class KanbnTaskPanel {
       columnName,
       dateFormat: this._kanbn.getDateFormat(index),
       taskPath,
-      attachments: task?.metadata?.attachments ?? []
+      attachments: task?.metadata?.attachments ?? [],
+      template: task === null ? this._template?.task ?? null : null
     }
   }
 
@@ -0,0 +1,134 @@
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+import { KanbnTreeNode } from './KanbnTreeDataProvider'
+
+// A task reference in a document, e.g. 'kanbn:fix-login-bug' or '[[fix-login-bug]]'
+interface TaskReference {
+  range: vscode.Range
+  taskId: string
+}
+
+// A referenced task, and the board and column it was found in
+interface ResolvedTask {
+  boardLocation: string
+  columnName: string
+  task: any
+  completed: boolean
+}
+
+const referencePattern = /\bkanbn:([a-z0-9][a-z0-9-]*)|\[\[([a-z0-9][a-z0-9-]*)\]\]/g
+
+export default class KanbnTaskReferenceProvider implements vscode.CodeLensProvider, vscode.HoverProvider {
+  private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>()
+  public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event
+
+  // Hydrated tasks for each board (keyed by task id), loaded when a reference is first resolved
+  private readonly _boardTasks = new Map<string, Promise<Map<string, ResolvedTask>>>()
+  private readonly _getBoards: () => Map<string, Kanbn>
+
+  constructor (getBoards: () => Map<string, Kanbn>) {
+    this._getBoards = getBoards
+  }
+
+  public refresh (): void {
+    this._boardTasks.clear()
+    this._onDidChangeCodeLenses.fire()
+  }
+
+  public async provideCodeLenses (document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+    const codeLenses: vscode.CodeLens[] = []
+    for (const reference of this.findReferences(document)) {
+      const resolved = await this.resolveTask(reference.taskId)
+      if (resolved === null) continue
+      const node = this.treeNode(resolved)
+      codeLenses.push(
+        new vscode.CodeLens(reference.range, {
+          title: `$(tasklist) ${resolved.task.name as string} (${resolved.columnName})`,
+          tooltip: 'Open task',
+          command: 'kanbn.treeView.openTask',
+          arguments: [node]
+        }),
+        new vscode.CodeLens(reference.range, {
+          title: 'Move to...',
+          command: 'kanbn.treeView.moveTask',
+          arguments: [node]
+        })
+      )
+    }
+    return codeLenses
+  }
+
+  public async provideHover (document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | null> {
+    const reference = this.findReferences(document).find(r => r.range.contains(position))
+    if (reference === undefined) return null
+    const resolved = await this.resolveTask(reference.taskId)
+    if (resolved === null) {
+      return new vscode.Hover(`No task with id \`${reference.taskId}\``, reference.range)
+    }
+    const task = resolved.task
+    const args = encodeURIComponent(JSON.stringify([this.treeNode(resolved)]))
+    const hover = new vscode.MarkdownString(`**${task.name as string}**\n\n\`${task.id as string}\` in ${resolved.columnName}`)
+    if (task.metadata.assigned != null) {
+      hover.appendMarkdown(`\n\nAssigned to ${task.metadata.assigned as string}`)
+    }
+    hover.appendMarkdown(`\n\nProgress: ${Math.round((task.progress ?? 0) * 100)}%`)
+    hover.appendMarkdown(`\n\n[Open task](command:kanbn.treeView.openTask?${args}) | [Move to...](command:kanbn.treeView.moveTask?${args})`)
+    hover.isTrusted = true
+    return new vscode.Hover(hover, reference.range)
+  }
+
+  private findReferences (document: vscode.TextDocument): TaskReference[] {
+    const references: TaskReference[] = []
+    const text = document.getText()
+    const pattern = new RegExp(referencePattern)
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text)) !== null) {
+      const range = new vscode.Range(document.positionAt(match.index), document.positionAt(match.index + match[0].length))
+      references.push({ range, taskId: match[1] ?? match[2] })
+    }
+    return references
+  }
+
+  // Find a task by id in any of the boards
+  private async resolveTask (taskId: string): Promise<ResolvedTask | null> {
+    for (const [boardLocation, kanbn] of this._getBoards()) {
+      let tasks = this._boardTasks.get(boardLocation)
+      if (tasks === undefined) {
+        tasks = this.loadTasks(boardLocation, kanbn)
+        this._boardTasks.set(boardLocation, tasks)
+      }
+      const resolved = (await tasks).get(taskId)
+      if (resolved !== undefined) return resolved
+    }
+    return null
+  }
+
+  private async loadTasks (boardLocation: string, kanbn: Kanbn): Promise<Map<string, ResolvedTask>> {
+    const tasks = new Map<string, ResolvedTask>()
+    try {
+      const index = await kanbn.getIndex()
+      const completedColumns: string[] = index.options.completedColumns ?? []
+      for (const task of await kanbn.loadAllTrackedTasks(index)) {
+        const hydrated = kanbn.hydrateTask(index, task)
+        tasks.set(hydrated.id, {
+          boardLocation,
+          columnName: hydrated.column,
+          task: hydrated,
+          completed: completedColumns.includes(hydrated.column)
+        })
+      }
+    } catch (e) {}
+    return tasks
+  }
+
+  // Get a tree node for a task, so the tree view's task commands can be used to open and move it
+  private treeNode (resolved: ResolvedTask): KanbnTreeNode {
+    return {
+      type: 'task',
+      boardLocation: resolved.boardLocation,
+      columnName: resolved.columnName,
+      task: { id: resolved.task.id, name: resolved.task.name },
+      completed: resolved.completed
+    }
+  }
+}
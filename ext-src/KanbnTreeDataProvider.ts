@@ -0,0 +1,141 @@
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+
+export type KanbnTreeNode =
+  | { type: 'board', boardLocation: string, name: string }
+  | { type: 'column', boardLocation: string, columnName: string, started: boolean, completed: boolean }
+  | { type: 'task', boardLocation: string, columnName: string, task: any, completed: boolean }
+
+export default class KanbnTreeDataProvider implements vscode.TreeDataProvider<KanbnTreeNode> {
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<KanbnTreeNode | undefined>()
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event
+
+  // Index and hydrated tasks for each board, loaded when the board node is expanded
+  private readonly _boardData = new Map<string, { index: any, tasks: Map<string, any> }>()
+  private readonly _getBoards: () => Map<string, Kanbn>
+
+  constructor (getBoards: () => Map<string, Kanbn>) {
+    this._getBoards = getBoards
+  }
+
+  public refresh (): void {
+    this._boardData.clear()
+    this._onDidChangeTreeData.fire(undefined)
+  }
+
+  public getTreeItem (node: KanbnTreeNode): vscode.TreeItem {
+    switch (node.type) {
+      case 'board': {
+        const item = new vscode.TreeItem(node.name, vscode.TreeItemCollapsibleState.Expanded)
+        item.id = node.boardLocation
+        item.description = path.basename(node.boardLocation)
+        item.tooltip = node.boardLocation
+        item.iconPath = new vscode.ThemeIcon('project')
+        item.contextValue = 'kanbnBoard'
+        return item
+      }
+      case 'column': {
+        const tasks: string[] = this._boardData.get(node.boardLocation)?.index.columns[node.columnName] ?? []
+        const item = new vscode.TreeItem(node.columnName, vscode.TreeItemCollapsibleState.Collapsed)
+        item.id = `${node.boardLocation}#${node.columnName}`
+        item.description = `${tasks.length}`
+        item.iconPath = new vscode.ThemeIcon(node.started ? 'play' : node.completed ? 'check' : 'list-unordered')
+        item.contextValue = 'kanbnColumn'
+        return item
+      }
+      case 'task': {
+        const task = node.task
+        const item = new vscode.TreeItem(task.name, vscode.TreeItemCollapsibleState.None)
+        item.id = `${node.boardLocation}#${node.columnName}#${task.id as string}`
+        item.description = task.metadata?.assigned ?? ''
+        const tooltip = new vscode.MarkdownString(`**${task.name as string}**\n\n\`${task.id as string}\` in ${node.columnName}`)
+        if (task.metadata?.tags?.length > 0) {
+          tooltip.appendMarkdown(`\n\nTags: ${(task.metadata.tags as string[]).join(', ')}`)
+        }
+        if (task.metadata?.due != null) {
+          tooltip.appendMarkdown(`\n\nDue: ${new Date(task.metadata.due).toDateString()}`)
+        }
+        item.tooltip = tooltip
+        item.iconPath = new vscode.ThemeIcon(node.completed ? 'pass' : 'circle-large-outline')
+        item.contextValue = 'kanbnTask'
+        item.command = {
+          command: 'kanbn.treeView.openTask',
+          title: 'Open task',
+          arguments: [node]
+        }
+        return item
+      }
+    }
+  }
+
+  public async getChildren (node?: KanbnTreeNode): Promise<KanbnTreeNode[]> {
+    // Root: one node per board in the board cache
+    if (node === undefined) {
+      const boards: KanbnTreeNode[] = []
+      for (const [boardLocation, kanbn] of this._getBoards()) {
+        let name = path.basename(boardLocation)
+        try {
+          name = (await kanbn.getIndex()).name
+        } catch (e) {}
+        boards.push({ type: 'board', boardLocation, name })
+      }
+      return boards
+    }
+
+    if (node.type === 'board') {
+      const boardData = await this.loadBoard(node.boardLocation)
+      if (boardData === undefined) return []
+      const index = boardData.index
+      const hiddenColumns: string[] = index.options.hiddenColumns ?? []
+      const startedColumns: string[] = index.options.startedColumns ?? []
+      const completedColumns: string[] = index.options.completedColumns ?? []
+      return Object.keys(index.columns)
+        .filter(columnName => !hiddenColumns.includes(columnName))
+        .map(columnName => ({
+          type: 'column',
+          boardLocation: node.boardLocation,
+          columnName,
+          started: startedColumns.includes(columnName),
+          completed: completedColumns.includes(columnName)
+        }))
+    }
+
+    if (node.type === 'column') {
+      const boardData = await this.loadBoard(node.boardLocation)
+      if (boardData === undefined) return []
+      return (boardData.index.columns[node.columnName] as string[] ?? [])
+        .filter(taskId => boardData.tasks.has(taskId))
+        .map(taskId => ({
+          type: 'task',
+          boardLocation: node.boardLocation,
+          columnName: node.columnName,
+          task: boardData.tasks.get(taskId),
+          completed: node.completed
+        }))
+    }
+
+    return []
+  }
+
+  private async loadBoard (boardLocation: string): Promise<{ index: any, tasks: Map<string, any> } | undefined> {
+    const cached = this._boardData.get(boardLocation)
+    if (cached !== undefined) return cached
+    const kanbn = this._getBoards().get(boardLocation)
+    if (kanbn === undefined) return undefined
+    try {
+      const index = await kanbn.getIndex()
+      const tasks = (await kanbn.loadAllTrackedTasks(index)).map((task) => kanbn.hydrateTask(index, task))
+      const boardData = { index, tasks: new Map<string, any>(tasks.map(task => [task.id, task])) }
+      this._boardData.set(boardLocation, boardData)
+      return boardData
+    } catch (error) {
+      if (error instanceof Error) {
+        void vscode.window.showErrorMessage(error.message)
+      } else {
+        throw error
+      }
+    }
+    return undefined
+  }
+}
@@ -0,0 +1,186 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { md2json as parseTask, json2md as taskToMarkdown } from '@basementuniverse/kanbn/src/parse-task'
+import { md2json as parseIndex, json2md as indexToMarkdown } from '@basementuniverse/kanbn/src/parse-index'
+
+export type ConflictSide = 'ours' | 'theirs'
+
+// A board file containing git conflict markers, with both sides of the conflict parsed. If either side couldn't be
+// parsed (e.g. because the conflict splits a line), the file has to be resolved by hand and the error is set.
+export interface FileConflict {
+  path: string
+  file: string
+  oursLabel: string
+  theirsLabel: string
+  ours: any
+  theirs: any
+  error: string | null
+}
+
+export interface BoardConflicts {
+  index: FileConflict | null
+  tasks: FileConflict[]
+}
+
+// How to resolve a board's conflicts: which side to take the board's name, description and options from, which side's
+// column to put each task in (a task that isn't on the chosen side is removed from the board), and for each conflicted
+// task file whether to take one side or merge them.
+export interface ConflictResolution {
+  settings: ConflictSide
+  columns: Record<string, ConflictSide>
+  tasks: Record<string, ConflictSide | 'merge'>
+}
+
+// Check whether some file contents contain git conflict markers
+export function hasConflictMarkers (contents: string): boolean {
+  return /^<{7}(?: |$)/m.test(contents) && /^>{7}(?: |$)/m.test(contents)
+}
+
+// Split file contents with conflict markers into our side and their side. The base section of diff3-style conflicts is
+// dropped.
+export function splitConflicts (contents: string): { ours: string, theirs: string, oursLabel: string, theirsLabel: string } {
+  const ours: string[] = []
+  const theirs: string[] = []
+  let oursLabel = ''
+  let theirsLabel = ''
+  let section: 'both' | 'ours' | 'base' | 'theirs' = 'both'
+  for (const line of contents.split(/\r?\n/)) {
+    if (section === 'both' && /^<{7}(?: |$)/.test(line)) {
+      section = 'ours'
+      oursLabel = oursLabel !== '' ? oursLabel : line.slice(8).trim()
+    } else if (section === 'ours' && /^\|{7}(?: |$)/.test(line)) {
+      section = 'base'
+    } else if ((section === 'ours' || section === 'base') && /^={7}$/.test(line)) {
+      section = 'theirs'
+    } else if (section === 'theirs' && /^>{7}(?: |$)/.test(line)) {
+      section = 'both'
+      theirsLabel = theirsLabel !== '' ? theirsLabel : line.slice(8).trim()
+    } else {
+      if (section === 'both' || section === 'ours') ours.push(line)
+      if (section === 'both' || section === 'theirs') theirs.push(line)
+    }
+  }
+  return { ours: ours.join('\n'), theirs: theirs.join('\n'), oursLabel, theirsLabel }
+}
+
+// Read a file and parse both sides of its conflicts, or resolve to null if the file has no conflict markers
+async function readConflict (filePath: string, file: string, parse: (markdown: string) => any): Promise<FileConflict | null> {
+  const contents = await fs.promises.readFile(filePath, 'utf8')
+  if (!hasConflictMarkers(contents)) return null
+  const sides = splitConflicts(contents)
+  const conflict: FileConflict = {
+    path: filePath,
+    file,
+    oursLabel: sides.oursLabel,
+    theirsLabel: sides.theirsLabel,
+    ours: null,
+    theirs: null,
+    error: null
+  }
+  try {
+    conflict.ours = parse(sides.ours)
+    conflict.theirs = parse(sides.theirs)
+  } catch (e) {
+    if (e instanceof Error) {
+      conflict.error = e.message
+    } else {
+      throw e
+    }
+  }
+  return conflict
+}
+
+// Find the board's index and task files that contain conflict markers
+export async function findConflicts (kanbnFolderName: string): Promise<BoardConflicts> {
+  const kanbnPath = path.join(kanbnFolderName, '.kanbn')
+  const indexPath = path.join(kanbnPath, 'index.md')
+  const index = fs.existsSync(indexPath) ? await readConflict(indexPath, 'index.md', parseIndex) : null
+  const tasks: FileConflict[] = []
+  const tasksPath = path.join(kanbnPath, 'tasks')
+  if (fs.existsSync(tasksPath)) {
+    for (const fileName of fs.readdirSync(tasksPath).filter(file => file.endsWith('.md')).sort()) {
+      const conflict = await readConflict(path.join(tasksPath, fileName), `tasks/${fileName}`, parseTask)
+      if (conflict !== null) tasks.push(conflict)
+    }
+  }
+  return { index, tasks }
+}
+
+// Get the id of the task in a conflicted task file
+export function conflictTaskId (conflict: FileConflict): string {
+  return path.basename(conflict.path, '.md')
+}
+
+// Merge the columns of two versions of the index. Tasks are put in the column they're in on the side chosen for them
+// (or the side they're on, if they're only on one side), keeping the order of each side's columns.
+function mergeIndex (ours: any, theirs: any, resolution: ConflictResolution): any {
+  const sides: Record<ConflictSide, any> = { ours, theirs }
+  const main = sides[resolution.settings]
+  const other = sides[resolution.settings === 'ours' ? 'theirs' : 'ours']
+  const columns: Record<string, string[]> = {}
+  for (const columnName of [...Object.keys(main.columns), ...Object.keys(other.columns)]) {
+    columns[columnName] = []
+  }
+  const onSide = (side: ConflictSide, taskId: string): boolean =>
+    Object.values(sides[side].columns).some(taskIds => (taskIds as string[]).includes(taskId))
+  const placed = new Set<string>()
+  for (const side of ['ours', 'theirs'] as ConflictSide[]) {
+    for (const [columnName, taskIds] of Object.entries(sides[side].columns)) {
+      for (const taskId of taskIds as string[]) {
+        if (placed.has(taskId)) continue
+        const chosen = resolution.columns[taskId] ?? (onSide('ours', taskId) ? 'ours' : 'theirs')
+        if (chosen !== side) continue
+        columns[columnName].push(taskId)
+        placed.add(taskId)
+      }
+    }
+  }
+  return { ...main, columns }
+}
+
+// Merge two versions of a task: our name, description and metadata are kept (with their metadata properties and tags
+// added), and the sub-tasks, relations and comments of both sides are combined
+function mergeTask (ours: any, theirs: any): any {
+  const union = (a: any[], b: any[], key: (item: any) => string): any[] => {
+    const keys = new Set(a.map(key))
+    return [...a, ...b.filter(item => !keys.has(key(item)))]
+  }
+  const tags: string[] = union(ours.metadata?.tags ?? [], theirs.metadata?.tags ?? [], tag => String(tag))
+  const metadata = { ...theirs.metadata, ...ours.metadata }
+  if (tags.length > 0) {
+    metadata.tags = tags
+  }
+  return {
+    ...ours,
+    metadata,
+    subTasks: union(ours.subTasks ?? [], theirs.subTasks ?? [], subTask => String(subTask.text)),
+    relations: union(ours.relations ?? [], theirs.relations ?? [], relation => `${String(relation.type)} ${String(relation.task)}`),
+    comments: union(ours.comments ?? [], theirs.comments ?? [], comment => `${String(comment.author)}\n${String(comment.text)}`)
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+  }
+}
+
+// Write the resolved index and task files. Files that couldn't be parsed are left as they are. Resolves to the number
+// of files written.
+export default async function resolveConflicts (conflicts: BoardConflicts, resolution: ConflictResolution): Promise<number> {
+  const files: Array<{ path: string, contents: string }> = []
+  if (conflicts.index !== null && conflicts.index.error === null) {
+    const index = mergeIndex(conflicts.index.ours, conflicts.index.theirs, resolution)
+    const contents = indexToMarkdown(index)
+    parseIndex(contents)
+    files.push({ path: conflicts.index.path, contents })
+  }
+  for (const conflict of conflicts.tasks.filter(c => c.error === null)) {
+    const choice = resolution.tasks[conflictTaskId(conflict)] ?? 'ours'
+    const task = choice === 'merge' ? mergeTask(conflict.ours, conflict.theirs) : conflict[choice]
+    const contents = taskToMarkdown(task)
+    parseTask(contents)
+    files.push({ path: conflict.path, contents })
+  }
+
+  // Only write the files once they've all been resolved, so a failure doesn't leave the board half resolved
+  for (const file of files) {
+    await fs.promises.writeFile(file.path, file.contents)
+  }
+  return files.length
+}
@@ -0,0 +1,57 @@
+// Quote a CSV field if it contains a delimiter, quote or line break. Text that a spreadsheet would run as a formula
+// (e.g. a task name starting with '=') is prefixed with an apostrophe so it's shown as text.
+function csvField (value: string | number | boolean | Date | null | undefined): string {
+  if (value === null || value === undefined) return ''
+  let s = value instanceof Date ? value.toISOString() : String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(s)) {
+    s = `'${s}`
+  }
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+// Convert a header row and data rows to CSV text
+export default function toCsv (
+  headers: string[],
+  rows: Array<Array<string | number | boolean | Date | null | undefined>>
+): string {
+  return [headers, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+// Parse CSV text into rows of fields, handling quoted fields with delimiters, escaped quotes and line breaks
+export function parseCsv (text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (c === '"') {
+        quoted = false
+      } else {
+        field += c
+      }
+    } else if (c === '"') {
+      quoted = true
+    } else if (c === ',') {
+      row.push(field)
+      field = ''
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += c
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(r => r.length > 1 || r[0] !== '')
+}
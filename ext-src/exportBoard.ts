@@ -0,0 +1,173 @@
+import toCsv from './csv'
+
+export type ExportFormat = 'csv' | 'json' | 'html'
+
+// The columns that can be exported to CSV, as well as the board's custom fields
+export const csvColumns: Record<string, string> = {
+  id: 'Task id',
+  name: 'Task name',
+  column: 'Column the task is in',
+  description: 'Task description',
+  assigned: 'Person assigned to the task',
+  tags: 'Tags, separated by spaces',
+  priority: 'Priority',
+  sprint: 'Sprint',
+  created: 'Date created',
+  updated: 'Date last updated',
+  started: 'Date started',
+  completed: 'Date completed',
+  due: 'Due date',
+  progress: 'Progress from 0 to 1',
+  workload: 'Workload',
+  subTasks: 'Completed and total sub-tasks',
+  relations: 'Related tasks',
+  comments: 'Number of comments'
+}
+
+// Get the board's tasks in the order they appear in the index
+function orderedTasks (index: any, tasks: any[]): any[] {
+  const taskIds = Object.values(index.columns).flat() as string[]
+  return [...tasks].sort((a, b) => taskIds.indexOf(a.id) - taskIds.indexOf(b.id))
+}
+
+// Get the value of a column for a hydrated task
+function columnValue (task: any, column: string): string | number | boolean | Date | null | undefined {
+  const subTasks: any[] = task.subTasks ?? []
+  switch (column) {
+    case 'id':
+    case 'name':
+    case 'column':
+    case 'description':
+    case 'progress':
+    case 'workload':
+      return task[column]
+    case 'tags':
+      return (task.metadata.tags ?? []).join(' ')
+    case 'subTasks':
+      return subTasks.length > 0 ? `${subTasks.filter(s => s.completed === true).length}/${subTasks.length}` : null
+    case 'relations':
+      return (task.relations ?? []).map((relation: any) => `${String(relation.type ?? '')} ${String(relation.task)}`.trim()).join('; ')
+    case 'comments':
+      return (task.comments ?? []).length
+    default: {
+      const value = task.metadata[column]
+      return typeof value === 'object' && value !== null && !(value instanceof Date) ? JSON.stringify(value) : value
+    }
+  }
+}
+
+// Convert a board's hydrated tasks to CSV with the chosen columns
+export function boardToCsv (index: any, tasks: any[], columns: string[]): string {
+  return toCsv(columns, orderedTasks(index, tasks).map(task => columns.map(column => columnValue(task, column))))
+}
+
+// Convert a board and its hydrated tasks to JSON
+export function boardToJson (index: any, tasks: any[]): string {
+  return JSON.stringify({
+    name: index.name,
+    description: index.description,
+    columns: index.columns,
+    options: index.options,
+    tasks: orderedTasks(index, tasks),
+    exported: new Date()
+  }, null, 2)
+}
+
+function escapeHtml (s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatDate (value: any): string {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? String(value) : date.toISOString().split('T')[0]
+}
+
+// Render a task as a card in the HTML snapshot
+function taskCard (task: any, completed: boolean): string {
+  const metadata = task.metadata ?? {}
+  const details: string[] = []
+  if (metadata.assigned != null && metadata.assigned !== '') {
+    details.push(`<span class="assigned">${escapeHtml(String(metadata.assigned))}</span>`)
+  }
+  if (metadata.priority != null && metadata.priority !== '') {
+    details.push(`<span class="priority">${escapeHtml(String(metadata.priority))}</span>`)
+  }
+  if (metadata.due != null) {
+    const overdue = !completed && new Date(metadata.due).getTime() < Date.now()
+    details.push(`<span class="due${overdue ? ' overdue' : ''}">Due ${escapeHtml(formatDate(metadata.due))}</span>`)
+  }
+  const subTasks: any[] = task.subTasks ?? []
+  if (subTasks.length > 0) {
+    details.push(`<span class="sub-tasks">${subTasks.filter(s => s.completed === true).length}/${subTasks.length} sub-tasks</span>`)
+  }
+  const tags: string = (metadata.tags ?? []).map((tag: any) => `<span class="tag">${escapeHtml(String(tag))}</span>`).join('')
+  const progress = typeof task.progress === 'number' && task.progress > 0
+    ? `<div class="progress"><div style="width: ${Math.round(Math.min(task.progress, 1) * 100)}%"></div></div>`
+    : ''
+  return `<div class="task${completed ? ' completed' : ''}">
+<div class="task-name">${escapeHtml(String(task.name))}</div>
+<div class="task-id">${escapeHtml(String(task.id))}</div>
+${tags !== '' ? `<div class="tags">${tags}</div>` : ''}
+${details.length > 0 ? `<div class="details">${details.join('')}</div>` : ''}
+${progress}
+</div>`
+}
+
+// Render a self-contained HTML snapshot of a board, with a column for each of the board's visible columns
+export function boardToHtml (index: any, tasks: any[]): string {
+  const hiddenColumns: string[] = index.options.hiddenColumns ?? []
+  const completedColumns: string[] = index.options.completedColumns ?? []
+  const tasksById = new Map(tasks.map(task => [task.id, task]))
+  const columns = Object.keys(index.columns).filter(columnName => !hiddenColumns.includes(columnName)).map(columnName => {
+    const columnTasks = (index.columns[columnName] as string[])
+      .map(taskId => tasksById.get(taskId))
+      .filter(task => task !== undefined)
+    return `<div class="column">
+<h2>${escapeHtml(columnName)} <span class="count">${columnTasks.length}</span></h2>
+${columnTasks.map(task => taskCard(task, completedColumns.includes(columnName))).join('\n')}
+</div>`
+  })
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width,initial-scale=1">
+<title>${escapeHtml(String(index.name))}</title>
+<style>
+body { margin: 0; padding: 24px; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; font-size: 14px; color: #24292f; background: #f6f8fa; }
+h1 { margin: 0 0 4px; font-size: 24px; }
+.description { margin: 0 0 4px; color: #57606a; white-space: pre-wrap; }
+.exported { margin: 0 0 20px; color: #8c959f; font-size: 12px; }
+.board { display: flex; gap: 12px; align-items: flex-start; overflow-x: auto; }
+.column { flex: 0 0 280px; padding: 8px; background: #eaeef2; border-radius: 6px; }
+.column h2 { margin: 4px 4px 8px; font-size: 14px; }
+.count { color: #57606a; font-weight: normal; }
+.task { margin-bottom: 8px; padding: 8px 10px; background: #fff; border: 1px solid #d0d7de; border-radius: 6px; }
+.task.completed .task-name { text-decoration: line-through; color: #57606a; }
+.task-name { font-weight: 600; }
+.task-id { color: #8c959f; font-size: 12px; }
+.tags, .details { display: flex; flex-wrap: wrap; gap: 4px; margin-top: 6px; font-size: 12px; }
+.tag { padding: 0 6px; background: #ddf4ff; border-radius: 10px; color: #0969da; }
+.details span { color: #57606a; }
+.details span + span::before { content: '\\00b7'; margin-right: 4px; }
+.due.overdue { color: #cf222e; }
+.progress { height: 4px; margin-top: 6px; background: #eaeef2; border-radius: 2px; }
+.progress div { height: 100%; background: #2da44e; border-radius: 2px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(String(index.name))}</h1>
+${String(index.description ?? '') !== '' ? `<p class="description">${escapeHtml(String(index.description))}</p>` : ''}
+<p class="exported">Exported ${escapeHtml(new Date().toISOString().replace('T', ' ').slice(0, 16))} UTC</p>
+<div class="board">
+${columns.join('\n')}
+</div>
+</body>
+</html>
+`
+}
@@ -3,16 +3,37 @@ import * as path from 'path'
 import KanbnStatusBarItem from './KanbnStatusBarItem'
 import KanbnBoardPanel from './KanbnBoardPanel'
 import KanbnBurndownPanel from './KanbnBurndownPanel'
+import KanbnTimelinePanel from './KanbnTimelinePanel'
+import KanbnMetricsPanel from './KanbnMetricsPanel'
+import KanbnSprintPanel from './KanbnSprintPanel'
+import KanbnConflictPanel from './KanbnConflictPanel'
+import KanbnImportPanel from './KanbnImportPanel'
+import KanbnTreeDataProvider, { KanbnTreeNode } from './KanbnTreeDataProvider'
+import KanbnTaskReferenceProvider from './KanbnTaskReferenceProvider'
+import KanbnBoardDiagnostics from './KanbnBoardDiagnostics'
+import KanbnFileCompletionProvider from './KanbnFileCompletionProvider'
+import KanbnReminders from './KanbnReminders'
+import { BoardProblem } from './validateBoard'
+import importBoard, { ImportSource, parseImport } from './importBoard'
+import parseChecklist from './parseChecklist'
+import { findTodos } from './todoSync'
+import { templatesPath } from './templates'
+import { Commit, Repository, getGitApi } from './git'
 import { Kanbn } from '@basementuniverse/kanbn/src/main'
 import * as fs from 'fs'
 
 export async function activate (context: vscode.ExtensionContext): Promise<void> {
   const kanbnStatusBarItem: KanbnStatusBarItem = new KanbnStatusBarItem(context, null)
   const boardCache = new Map<string, KanbnTuple>()
+  const boardWatchers = new Map<string, vscode.FileSystemWatcher>()
   class KanbnTuple {
     kanbn: Kanbn
     kanbnBoardPanel: KanbnBoardPanel
     kanbnBurnDownPanel: KanbnBurndownPanel
+    kanbnTimelinePanel: KanbnTimelinePanel
+    kanbnMetricsPanel: KanbnMetricsPanel
+    kanbnSprintPanel: KanbnSprintPanel
+    kanbnConflictPanel: KanbnConflictPanel
     constructor (boardLocation: string) {
       if (vscode.workspace.workspaceFolders == null) {
         throw new Error('A workspace folder should be open when creating Kanbn board panels')
@@ -29,9 +50,101 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
         this.kanbn,
         boardLocation,
         this.kanbnBurnDownPanel)
+      this.kanbnTimelinePanel = KanbnTimelinePanel.create(
+        context.extensionPath,
+        vscode.workspace.workspaceFolders[0].uri.fsPath,
+        this.kanbn,
+        boardLocation,
+        (taskId, columnName) => { this.kanbnBoardPanel.showTaskPanel(taskId, columnName) },
+        this.kanbnBoardPanel.journal)
+      this.kanbnMetricsPanel = KanbnMetricsPanel.create(
+        context.extensionPath,
+        vscode.workspace.workspaceFolders[0].uri.fsPath,
+        this.kanbn,
+        boardLocation,
+        (taskId, columnName) => { this.kanbnBoardPanel.showTaskPanel(taskId, columnName) })
+      this.kanbnSprintPanel = KanbnSprintPanel.create(
+        context.extensionPath,
+        vscode.workspace.workspaceFolders[0].uri.fsPath,
+        this.kanbn,
+        boardLocation,
+        (taskId, columnName) => { this.kanbnBoardPanel.showTaskPanel(taskId, columnName) },
+        this.kanbnBoardPanel.journal)
+      this.kanbnConflictPanel = KanbnConflictPanel.create(
+        context.extensionPath,
+        vscode.workspace.workspaceFolders[0].uri.fsPath,
+        this.kanbn,
+        boardLocation,
+        this.kanbnBoardPanel.journal)
     }
   }
 
+  // Register the boards tree view
+  const kanbnTreeDataProvider = new KanbnTreeDataProvider(
+    () => new Map([...boardCache].map(([boardLocation, kanbnTuple]) => [boardLocation, kanbnTuple.kanbn]))
+  )
+  context.subscriptions.push(vscode.window.registerTreeDataProvider('kanbnBoards', kanbnTreeDataProvider))
+
+  // Register the CodeLens and hover provider for task references (e.g. 'kanbn:task-id' or '[[task-id]]') in files
+  const kanbnTaskReferenceProvider = new KanbnTaskReferenceProvider(
+    () => new Map([...boardCache].map(([boardLocation, kanbnTuple]) => [boardLocation, kanbnTuple.kanbn]))
+  )
+  context.subscriptions.push(
+    vscode.languages.registerCodeLensProvider({ scheme: 'file' }, kanbnTaskReferenceProvider),
+    vscode.languages.registerHoverProvider({ scheme: 'file' }, kanbnTaskReferenceProvider)
+  )
+
+  // Register the Problems panel diagnostics and quick fixes for board validation
+  const kanbnBoardDiagnostics = new KanbnBoardDiagnostics()
+  context.subscriptions.push(
+    kanbnBoardDiagnostics,
+    vscode.languages.registerCodeActionsProvider(
+      { scheme: 'file', language: 'markdown' },
+      kanbnBoardDiagnostics,
+      { providedCodeActionKinds: KanbnBoardDiagnostics.providedCodeActionKinds }
+    )
+  )
+
+  // Register completion for board files (the index, task files and templates), and check them while they're edited
+  const kanbnFileCompletionProvider = new KanbnFileCompletionProvider(
+    () => new Map([...boardCache].map(([boardLocation, kanbnTuple]) => [boardLocation, kanbnTuple.kanbn]))
+  )
+  context.subscriptions.push(
+    vscode.languages.registerCompletionItemProvider(
+      { scheme: 'file', language: 'markdown', pattern: '**/.kanbn/**/*.md' },
+      kanbnFileCompletionProvider,
+      ...KanbnFileCompletionProvider.triggerCharacters
+    )
+  )
+  function boardForDocument (document: vscode.TextDocument): string | undefined {
+    if (document.uri.scheme !== 'file') return undefined
+    return [...boardCache.keys()].find(board => document.uri.fsPath.startsWith(path.join(board, '.kanbn') + path.sep))
+  }
+  // Documents are checked once they haven't changed for 500ms, rather than on every keystroke
+  const documentTimers = new Map<vscode.TextDocument, ReturnType<typeof setTimeout>>()
+  const validateDocument = (document: vscode.TextDocument): void => {
+    const board = boardForDocument(document)
+    if (board === undefined) return
+    const timer = documentTimers.get(document)
+    if (timer !== undefined) { clearTimeout(timer) }
+    documentTimers.set(document, setTimeout(() => {
+      documentTimers.delete(document)
+      void kanbnBoardDiagnostics.validateDocument(board, document)
+    }, 500))
+  }
+  context.subscriptions.push(
+    vscode.workspace.onDidOpenTextDocument(validateDocument),
+    vscode.workspace.onDidChangeTextDocument(e => { validateDocument(e.document) }),
+    vscode.workspace.onDidCloseTextDocument(document => {
+      const board = boardForDocument(document)
+      if (board === undefined) return
+      const timer = documentTimers.get(document)
+      if (timer !== undefined) { clearTimeout(timer) }
+      documentTimers.delete(document)
+      void kanbnBoardDiagnostics.closeDocument(board, document)
+    })
+  )
+
   async function chooseBoard (): Promise<string | undefined> {
     if (boardCache.size === 0) {
       void vscode.window.showErrorMessage(
@@ -76,31 +189,93 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
         }
       }
     }
+
+    // Forget boards that have been removed from the workspace or the configuration
+    for (const boardLocation of [...boardCache.keys()]) {
+      if (!boardLocations.has(boardLocation)) {
+        boardCache.delete(boardLocation)
+        boardWatchers.get(boardLocation)?.dispose()
+        boardWatchers.delete(boardLocation)
+      }
+    }
     for (const boardLocation of boardLocations) {
-      const kanbnTuple = new KanbnTuple(boardLocation)
-      boardCache.set(boardLocation, kanbnTuple)
+      // Boards that are already loaded keep their panels and undo history
+      if (!boardCache.has(boardLocation)) {
+        loadBoard(boardLocation)
+      }
+    }
+  }
 
-      // Initialise file watcher
-      const fileWatcher = vscode.workspace.createFileSystemWatcher(
-        new vscode.RelativePattern(vscode.Uri.file(`${boardLocation}/.kanbn`), '**')
-      )
+  // Create the panels for a board and start watching its files
+  function loadBoard (boardLocation: string): KanbnTuple {
+    const kanbnTuple = new KanbnTuple(boardLocation)
+    boardCache.set(boardLocation, kanbnTuple)
 
-      let refreshTimer: ReturnType<typeof setTimeout> | null = null
-      const refreshBoard = (): void => {
-        if (refreshTimer != null) { clearTimeout(refreshTimer) }
-        refreshTimer = setTimeout(() => {
-          refreshTimer = null
-          void kanbnStatusBarItem.update(kanbnTuple.kanbn)
-          void kanbnTuple.kanbnBoardPanel.update()
-          void kanbnTuple.kanbnBurnDownPanel.update()
-        }, 150)
+    // Initialise file watcher. The pattern is relative to the board's folder, so it works for new boards that don't
+    // have a .kanbn folder yet.
+    const fileWatcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(boardLocation), '.kanbn/**')
+    )
+    boardWatchers.set(boardLocation, fileWatcher)
+
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null
+    const refreshBoard = (uri: vscode.Uri): void => {
+      // Task templates are only reloaded when a file in the templates folder changes
+      if (!path.relative(templatesPath(boardLocation), uri.fsPath).startsWith('..')) {
+        kanbnTuple.kanbnBoardPanel.refreshTemplates()
       }
-      fileWatcher.onDidChange(refreshBoard)
-      fileWatcher.onDidCreate(refreshBoard)
-      fileWatcher.onDidDelete(refreshBoard)
+      if (refreshTimer != null) { clearTimeout(refreshTimer) }
+      refreshTimer = setTimeout(() => {
+        refreshTimer = null
+        void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+        void kanbnTuple.kanbnBoardPanel.update()
+        void kanbnTuple.kanbnBurnDownPanel.update()
+        void kanbnTuple.kanbnTimelinePanel.update()
+        void kanbnTuple.kanbnMetricsPanel.update()
+        void kanbnTuple.kanbnSprintPanel.update()
+        void kanbnTuple.kanbnConflictPanel.update()
+        kanbnTreeDataProvider.refresh()
+        kanbnTaskReferenceProvider.refresh()
+        kanbnFileCompletionProvider.refresh()
+        void kanbnBoardDiagnostics.refresh(boardLocation)
+      }, 150)
     }
+    fileWatcher.onDidChange(refreshBoard)
+    fileWatcher.onDidCreate(refreshBoard)
+    fileWatcher.onDidDelete(refreshBoard)
+    return kanbnTuple
   }
   populateBoardCache()
+  vscode.workspace.textDocuments.forEach(validateDocument)
+
+  // Remind the user about tasks that are due soon, due today or overdue
+  const kanbnReminders = new KanbnReminders(
+    context,
+    () => new Map([...boardCache].map(([boardLocation, kanbnTuple]) => [boardLocation, kanbnTuple.kanbn])),
+    (boardLocation, taskId, columnName) => {
+      boardCache.get(boardLocation)?.kanbnBoardPanel.showTaskPanel(taskId, columnName)
+    },
+    async (boardLocation, taskId) => {
+      const kanbnTuple = boardCache.get(boardLocation)
+      if (kanbnTuple === undefined) return
+      await kanbnTuple.kanbnBoardPanel.markDone(taskId)
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+    }
+  )
+  context.subscriptions.push(kanbnReminders)
+  void kanbnReminders.check()
+
+  // Create the folder for a new board in the workspace's boards folder, and start watching it. The board still needs to
+  // be initialised.
+  function addBoard (boardName: string): KanbnTuple {
+    const workspaceFolder = (vscode.workspace.workspaceFolders ?? [])[0]
+    const boardLocation = path.resolve(`${workspaceFolder.uri.fsPath}/.kanbn_boards/${boardName}`)
+    fs.mkdirSync(boardLocation, { recursive: true })
+    const kanbnTuple = boardCache.get(boardLocation) ?? loadBoard(boardLocation)
+    kanbnTreeDataProvider.refresh()
+    kanbnTaskReferenceProvider.refresh()
+    return kanbnTuple
+  }
 
   // Register a command to initialise Kanbn in the current workspace. This command will be invoked when the status
   // bar item is clicked in a workspace where Kanbn isn't already initialised.
@@ -122,7 +297,6 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
         return newBoardName
       }
       let boardName = await getNewBoardName()
-      let kanbnTuple: KanbnTuple
       // If the input prompt wasn't cancelled, initialise kanbn
       while (boardName !== undefined) {
         const boardLocation: string = `${vscode.workspace.workspaceFolders[0].uri.fsPath}/.kanbn_boards/${boardName}`
@@ -131,35 +305,73 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
           boardName = await getNewBoardName()
           continue
         }
-        fs.mkdirSync(boardLocation, { recursive: true })
-        kanbnTuple = new KanbnTuple(boardLocation)
+        const kanbnTuple = addBoard(boardName)
         void kanbnTuple.kanbn.initialise({
           name: boardName
         })
-        // Initialise file watcher
-        const fileWatcher = vscode.workspace.createFileSystemWatcher(
-          new vscode.RelativePattern(vscode.workspace.workspaceFolders[0], `.kanbn_boards/${boardName}/**.*`)
-        )
-        let refreshNewTimer: ReturnType<typeof setTimeout> | null = null
-        const refreshNewBoard = (): void => {
-          if (refreshNewTimer != null) { clearTimeout(refreshNewTimer) }
-          refreshNewTimer = setTimeout(() => {
-            refreshNewTimer = null
-            void kanbnStatusBarItem.update(kanbnTuple.kanbn)
-            void kanbnTuple.kanbnBoardPanel.update()
-            void kanbnTuple.kanbnBurnDownPanel.update()
-          }, 150)
-        }
-        fileWatcher.onDidChange(refreshNewBoard)
-        fileWatcher.onDidCreate(refreshNewBoard)
-        fileWatcher.onDidDelete(refreshNewBoard)
-        boardCache.set(boardName, kanbnTuple)
         void vscode.window.showInformationMessage(`Created Kanbn board '${boardLocation}'.`)
         break
       }
     })
   )
 
+  // Register a command to create a board from a Trello, GitHub or Jira export file.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.importBoard', async () => {
+      if (vscode.workspace.workspaceFolders === undefined) {
+        void vscode.window.showErrorMessage('You need to open a workspace before importing a board.')
+        return
+      }
+      const workspacePath = vscode.workspace.workspaceFolders[0].uri.fsPath
+      const source = await vscode.window.showQuickPick(
+        [
+          { label: 'Trello', description: 'Board exported as JSON', source: 'trello' as ImportSource, extensions: ['json'] },
+          { label: 'GitHub', description: 'Issues or project items exported as JSON with the GitHub CLI', source: 'github' as ImportSource, extensions: ['json'] },
+          { label: 'Jira', description: 'Issues exported as CSV', source: 'jira' as ImportSource, extensions: ['csv'] }
+        ],
+        { placeHolder: 'Select where to import from...' }
+      )
+      if (source === undefined) return
+      const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { [`${source.label} export`]: source.extensions },
+        openLabel: 'Import'
+      })
+      if (uris === undefined || uris.length === 0) return
+      let board
+      try {
+        board = parseImport(source.source, await fs.promises.readFile(uris[0].fsPath, 'utf8'))
+      } catch (e) {
+        if (e instanceof Error) {
+          void vscode.window.showErrorMessage(`Couldn't read ${path.basename(uris[0].fsPath)}: ${e.message}`)
+          return
+        }
+        throw e
+      }
+
+      // Show the import wizard, which creates the board once the columns have been mapped
+      KanbnImportPanel.create(context.extensionPath, source.label, uris[0].fsPath, board, async (board, boardName, columns) => {
+        if (fs.existsSync(`${workspacePath}/.kanbn_boards/${boardName}`)) {
+          void vscode.window.showErrorMessage('A board with that name already exists. Pick a different name.')
+          return false
+        }
+        const kanbnTuple = addBoard(boardName)
+        try {
+          const count = await importBoard(kanbnTuple.kanbn, board, boardName, columns)
+          void vscode.window.showInformationMessage(`Imported ${count} task${count === 1 ? '' : 's'} into '${boardName}'.`)
+          void kanbnTuple.kanbnBoardPanel.show()
+        } catch (e) {
+          if (e instanceof Error) {
+            void vscode.window.showErrorMessage(`Couldn't import the board: ${e.message}`)
+          } else {
+            throw e
+          }
+        }
+        return true
+      }).show()
+    })
+  )
+
   // Register a command to open the kanbn board. This command will be invoked when the status bar item is clicked
   // in a workspace where kanbn has already been initialised.
   context.subscriptions.push(
@@ -187,11 +399,171 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
       const kanbnTuple = boardCache.get(board)
       if (kanbnTuple === undefined) { return }
 
-      // Open the task webview
-      kanbnTuple.kanbnBoardPanel.showTaskPanel(null)
+      // Open the task webview, choosing a template first if the board has any
+      await kanbnTuple.kanbnBoardPanel.addTask()
+    })
+  )
+
+  // Register a command to create tasks from the markdown lines selected in the editor.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.createTasksFromSelection', async () => {
+      const editor = vscode.window.activeTextEditor
+      if (editor === undefined) return
+
+      // Use whole lines, even if the selection starts or ends part way through a line
+      const text = editor.selections
+        .filter(selection => !selection.isEmpty)
+        .map(selection => editor.document.getText(new vscode.Range(
+          selection.start.line, 0,
+          selection.end.line, editor.document.lineAt(selection.end.line).text.length
+        )))
+        .join('\n')
+      const tasks = parseChecklist(text)
+      if (tasks.length === 0) {
+        void vscode.window.showErrorMessage('Select the lines to create tasks from.')
+        return
+      }
+
+      // Choose a board and a column to create the tasks in
+      const board = await chooseBoard()
+      if (board === undefined) return
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+      const index = await kanbnTuple.kanbn.getIndex()
+      const columnName = await vscode.window.showQuickPick(Object.keys(index.columns), {
+        placeHolder: `Select a column for ${tasks.length} new task${tasks.length === 1 ? '' : 's'}`
+      })
+      if (columnName === undefined) return
+
+      await kanbnTuple.kanbnBoardPanel.createTasks(tasks, columnName)
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
     })
   )
 
+  // Register a command to sync tasks with the TODO comments in the workspace. Boards that have been synced are
+  // remembered, so they can be synced again automatically when a file is saved.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.syncTodos', async () => {
+      if (vscode.workspace.workspaceFolders === undefined) {
+        void vscode.window.showErrorMessage('You need to open a workspace before syncing TODO comments.')
+        return
+      }
+      const board = await chooseBoard()
+      if (board === undefined) return
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+
+      const todoBoards = context.workspaceState.get<string[]>('kanbn.todoBoards') ?? []
+      if (!todoBoards.includes(board)) {
+        void context.workspaceState.update('kanbn.todoBoards', [...todoBoards, board])
+      }
+      const todos = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: 'Scanning for TODO comments' },
+        async () => await findTodos(vscode.workspace.workspaceFolders?.[0].uri.fsPath ?? '')
+      )
+      await kanbnTuple.kanbnBoardPanel.syncTodos(todos)
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+    })
+  )
+
+  // Sync TODO comments when a file is saved, if enabled
+  let syncTodosTimer: ReturnType<typeof setTimeout> | null = null
+  context.subscriptions.push(
+    vscode.workspace.onDidSaveTextDocument(() => {
+      if (vscode.workspace.getConfiguration('kanbn').get<boolean>('syncTodosOnSave') !== true) return
+      if (syncTodosTimer != null) { clearTimeout(syncTodosTimer) }
+      syncTodosTimer = setTimeout(() => {
+        syncTodosTimer = null
+        const kanbnTuples = (context.workspaceState.get<string[]>('kanbn.todoBoards') ?? [])
+          .map(board => boardCache.get(board))
+          .filter((kanbnTuple): kanbnTuple is KanbnTuple => kanbnTuple !== undefined)
+        if (kanbnTuples.length === 0) return
+        void findTodos(vscode.workspace.workspaceFolders?.[0].uri.fsPath ?? '').then(async todos => {
+          for (const kanbnTuple of kanbnTuples) {
+            await kanbnTuple.kanbnBoardPanel.syncTodos(todos, true)
+          }
+        })
+      }, 1000)
+    })
+  )
+
+  // When a git repository changes, check whether the branches of tasks on its boards have been merged into the main
+  // branch. Branches that have been seen with unmerged commits are remembered across sessions.
+  const unmergedBranches = new Set(context.workspaceState.get<string[]>('kanbn.unmergedBranches') ?? [])
+
+  // Get the commits added to a repository's HEAD since it was last seen (e.g. by committing or pulling), if commit
+  // message references are enabled. The last seen HEAD of each repository is remembered across sessions.
+  const lastCommits = context.workspaceState.get<Record<string, string>>('kanbn.lastCommits') ?? {}
+  const maxNewCommits = 10000
+  const getNewCommits = async (repository: Repository): Promise<Commit[]> => {
+    const head = repository.state.HEAD?.commit
+    const lastCommit = lastCommits[repository.rootUri.fsPath]
+    if (head === undefined || head === lastCommit) return []
+    lastCommits[repository.rootUri.fsPath] = head
+    void context.workspaceState.update('kanbn.lastCommits', lastCommits)
+    if (lastCommit === undefined || vscode.workspace.getConfiguration('kanbn').get<boolean>('commitReferences') !== true) return []
+    const repositoryName = path.basename(repository.rootUri.fsPath)
+    try {
+      // The last seen HEAD isn't in the new HEAD's history (e.g. after switching branches or a reset), so no commits
+      // were added to it
+      if (await repository.getMergeBase(lastCommit, head) !== lastCommit) return []
+
+      // Older versions of the git extension don't support a range for the log, so get more and more of the latest
+      // commits until the last seen HEAD is one of them, and keep the ones after it
+      for (let maxEntries = 100; ; maxEntries *= 10) {
+        const commits = await repository.log({ maxEntries })
+        const lastIndex = commits.findIndex(commit => commit.hash === lastCommit)
+        if (lastIndex !== -1) return commits.slice(0, lastIndex)
+        if (commits.length < maxEntries || maxEntries >= maxNewCommits) {
+          void vscode.window.showWarningMessage(
+            `Commit message references in ${repositoryName} were skipped, because more than ${maxNewCommits} commits were added.`
+          )
+          return []
+        }
+      }
+    } catch (e) {
+      void vscode.window.showErrorMessage(
+        `Couldn't read the commits in ${repositoryName}: ${e instanceof Error ? e.message : String(e)}`
+      )
+      return []
+    }
+  }
+
+  const watchRepository = (repository: Repository): void => {
+    let checkTimer: ReturnType<typeof setTimeout> | null = null
+    context.subscriptions.push(
+      repository.state.onDidChange(() => {
+        if (checkTimer != null) { clearTimeout(checkTimer) }
+        checkTimer = setTimeout(() => {
+          checkTimer = null
+          void (async () => {
+            const gitApi = await getGitApi()
+            const commits = await getNewCommits(repository)
+            for (const [boardLocation, kanbnTuple] of boardCache) {
+              const boardRepository = gitApi?.getRepository(vscode.Uri.file(boardLocation))
+              if (boardRepository?.rootUri.fsPath !== repository.rootUri.fsPath) continue
+              try {
+                if (commits.length > 0) {
+                  await kanbnTuple.kanbnBoardPanel.applyCommitReferences(commits)
+                }
+                await kanbnTuple.kanbnBoardPanel.checkMergedBranches(repository, unmergedBranches)
+              } catch (e) {
+                // Nothing waits for this check, so report errors rather than throwing them
+                void vscode.window.showErrorMessage(e instanceof Error ? e.message : String(e))
+              }
+            }
+            void context.workspaceState.update('kanbn.unmergedBranches', [...unmergedBranches])
+          })()
+        }, 2000)
+      })
+    )
+  }
+  void getGitApi().then(gitApi => {
+    if (gitApi === null) return
+    gitApi.repositories.forEach(watchRepository)
+    context.subscriptions.push(gitApi.onDidOpenRepository(watchRepository))
+  })
+
   // Register a command to open an existing kanbn task.
   context.subscriptions.push(
     vscode.commands.registerCommand('kanbn.openTask', async () => {
@@ -256,6 +628,116 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
     })
   )
 
+  // Register a command to open the sprint panel.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.sprints', async () => {
+      const board = await chooseBoard()
+      if (board === undefined) return
+
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+
+      kanbnTuple.kanbnSprintPanel.show()
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+    })
+  )
+
+  // Register a command to open a timeline.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.timeline', async () => {
+      const board = await chooseBoard()
+      if (board === undefined) return
+
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+
+      kanbnTuple.kanbnTimelinePanel.show()
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+    })
+  )
+
+  // Register a command to open flow metrics.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.metrics', async () => {
+      const board = await chooseBoard()
+      if (board === undefined) return
+
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+
+      kanbnTuple.kanbnMetricsPanel.show()
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+    })
+  )
+
+  // Register a command to resolve merge conflicts in a board's files. The board panel passes its board location when it
+  // finds conflicts.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.resolveConflicts', async (boardLocation?: string) => {
+      const board = boardLocation ?? await chooseBoard()
+      if (board === undefined) return
+
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+
+      kanbnTuple.kanbnConflictPanel.show()
+    })
+  )
+
+  // Register a command to export a board to CSV, JSON or HTML.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.exportBoard', async () => {
+      const board = await chooseBoard()
+      if (board === undefined) return
+
+      const kanbnTuple = boardCache.get(board)
+      if (kanbnTuple === undefined) return
+
+      await kanbnTuple.kanbnBoardPanel.exportBoard()
+    })
+  )
+
+  // Register a command to check a board's files for problems and show them in the Problems panel.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.validateBoard', async () => {
+      const board = await chooseBoard()
+      if (board === undefined) return
+
+      try {
+        const count = await kanbnBoardDiagnostics.validate(board)
+        if (count === 0) {
+          void vscode.window.showInformationMessage('No problems found in this board.')
+        } else {
+          void vscode.window.showWarningMessage(
+            `Found ${count} problem${count === 1 ? '' : 's'} in this board.`,
+            'Show problems'
+          ).then(action => {
+            if (action === 'Show problems') void vscode.commands.executeCommand('workbench.actions.view.problems')
+          })
+        }
+      } catch (e) {
+        if (e instanceof Error) {
+          void vscode.window.showErrorMessage(e.message)
+        } else {
+          throw e
+        }
+      }
+    })
+  )
+
+  // Register a command to repair board problems, used by the quick fixes in the Problems panel.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.fixBoardProblems', async (boardLocation: string, problems: BoardProblem[]) => {
+      const kanbnTuple = boardCache.get(boardLocation)
+      if (kanbnTuple === undefined) return
+      await kanbnTuple.kanbnBoardPanel.journal.record(
+        `Fix ${problems.length} board problem${problems.length === 1 ? '' : 's'}`,
+        problems.flatMap(problem => problem.taskId !== undefined ? [problem.taskId] : []),
+        async () => { await kanbnBoardDiagnostics.fix(boardLocation, problems) }
+      )
+    })
+  )
+
   // Register a command to archive tasks.
   context.subscriptions.push(
     vscode.commands.registerCommand('kanbn.archiveTasks', async () => {
@@ -354,9 +836,132 @@ export async function activate (context: vscode.ExtensionContext): Promise<void>
     })
   )
 
+  // Get the board whose panel is currently active, or prompt for a board if no board panel is active.
+  async function activeOrChosenBoard (): Promise<KanbnTuple | undefined> {
+    for (const [, kanbnTuple] of boardCache) {
+      if (kanbnTuple.kanbnBoardPanel.isActive) return kanbnTuple
+    }
+    const board = await chooseBoard()
+    if (board === undefined) return
+    return boardCache.get(board)
+  }
+
+  // Register commands to undo and redo board changes.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.undo', async () => {
+      const kanbnTuple = await activeOrChosenBoard()
+      if (kanbnTuple === undefined) return
+      await kanbnTuple.kanbnBoardPanel.undo()
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+    })
+  )
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.redo', async () => {
+      const kanbnTuple = await activeOrChosenBoard()
+      if (kanbnTuple === undefined) return
+      await kanbnTuple.kanbnBoardPanel.redo()
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+    })
+  )
+
+  // Register a command to apply a saved board view.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.applyView', async () => {
+      const kanbnTuple = await activeOrChosenBoard()
+      if (kanbnTuple === undefined) return
+      const index = await kanbnTuple.kanbn.getIndex()
+      const views: any[] = index.options.views ?? []
+      if (views.length === 0) {
+        void vscode.window.showInformationMessage('This board has no saved views. Save a view from the board header first.')
+        return
+      }
+      const view = await vscode.window.showQuickPick(
+        views.map(view => ({
+          label: view.name as string,
+          description: [
+            view.filter !== '' ? view.filter : null,
+            view.focusedColumn != null ? `column: ${view.focusedColumn as string}` : null,
+            view.viewMode === 'list' ? 'list view' : null
+          ].filter(i => i !== null).join(' · ')
+        })),
+        {
+          placeHolder: 'Apply view...',
+          canPickMany: false
+        }
+      )
+      if (view === undefined) return
+      await kanbnTuple.kanbnBoardPanel.applyView(view.label)
+    })
+  )
+
+  // Register commands for the inline actions in the boards tree view.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.treeView.refresh', () => {
+      kanbnTreeDataProvider.refresh()
+      kanbnTaskReferenceProvider.refresh()
+    })
+  )
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.treeView.openBoard', (node: KanbnTreeNode) => {
+      const kanbnTuple = boardCache.get(node.boardLocation)
+      if (kanbnTuple === undefined) return
+      void kanbnTuple.kanbnBoardPanel.show()
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+    })
+  )
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.treeView.addTask', (node: KanbnTreeNode) => {
+      const kanbnTuple = boardCache.get(node.boardLocation)
+      if (kanbnTuple === undefined) return
+      void kanbnTuple.kanbnBoardPanel.addTask(node.type === 'column' ? node.columnName : null)
+    })
+  )
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.treeView.openTask', (node: KanbnTreeNode) => {
+      if (node.type !== 'task') return
+      const kanbnTuple = boardCache.get(node.boardLocation)
+      if (kanbnTuple === undefined) return
+      kanbnTuple.kanbnBoardPanel.showTaskPanel(node.task.id, node.columnName)
+    })
+  )
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.treeView.moveTask', async (node: KanbnTreeNode) => {
+      if (node.type !== 'task') return
+      const kanbnTuple = boardCache.get(node.boardLocation)
+      if (kanbnTuple === undefined) return
+      const index = await kanbnTuple.kanbn.getIndex()
+      const targetColumn = await vscode.window.showQuickPick(
+        Object.keys(index.columns).filter(columnName => columnName !== node.columnName),
+        {
+          placeHolder: `Move '${node.task.name as string}' to...`,
+          canPickMany: false
+        }
+      )
+      if (targetColumn === undefined) return
+      await kanbnTuple.kanbnBoardPanel.moveTask(node.task.id, targetColumn)
+      void kanbnTuple.kanbnBoardPanel.update()
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+    })
+  )
+  context.subscriptions.push(
+    vscode.commands.registerCommand('kanbn.treeView.archiveTask', async (node: KanbnTreeNode) => {
+      if (node.type !== 'task') return
+      const kanbnTuple = boardCache.get(node.boardLocation)
+      if (kanbnTuple === undefined) return
+      await kanbnTuple.kanbnBoardPanel.archiveTasks([node.task.id])
+      void kanbnStatusBarItem.update(kanbnTuple.kanbn)
+      if (vscode.workspace.getConfiguration('kanbn').get<boolean>('showTaskNotifications') === true) {
+        void vscode.window.showInformationMessage(`Archived task '${node.task.name as string}'.`)
+      }
+    })
+  )
+
   // Handle configuration changes.
   vscode.workspace.onDidChangeConfiguration((e) => {
     populateBoardCache()
+    kanbnTreeDataProvider.refresh()
+    kanbnTaskReferenceProvider.refresh()
+    kanbnFileCompletionProvider.refresh()
     // Update all board panels in case we need to show/hide certain buttons.
     for (const [, kanbnTuple] of boardCache) {
       void kanbnTuple.kanbnBoardPanel.update()
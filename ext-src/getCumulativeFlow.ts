@@ -0,0 +1,77 @@
+const DAY = 24 * 60 * 60 * 1000
+
+// The most data points to return, so long date ranges are sampled less often than daily
+const maxDataPoints = 200
+
+export interface CumulativeFlowData {
+  columns: string[]
+  series: Array<{ x: Date, counts: number[] }>
+}
+
+// Parse a task date, which may be a Date or a string
+function toTime (value: any): number | null {
+  if (value == null) return null
+  const time = new Date(value).getTime()
+  return isNaN(time) ? null : time
+}
+
+// Count the tasks in each (visible) column at regular intervals between two dates.
+//
+// Kanbn doesn't record when tasks move between columns, so the column a task was in at a given time is estimated from
+// its created, started and completed dates and the board's started and completed columns. Before a task was started
+// it is counted in its current column if that is neither a started nor a completed column, or otherwise in the first
+// such column (e.g. Backlog). Once started it is counted in its current column if that is a started column, or
+// otherwise in the first started column. Once completed it is counted in its current column if that is a completed
+// column, or otherwise in the first completed column.
+export default function getCumulativeFlow (index: any, tasks: any[], from: Date, to: Date): CumulativeFlowData {
+  const hiddenColumns: string[] = index.options.hiddenColumns ?? []
+  const startedColumns: string[] = index.options.startedColumns ?? []
+  const completedColumns: string[] = index.options.completedColumns ?? []
+  const columns = Object.keys(index.columns).filter(column => !hiddenColumns.includes(column))
+  const firstColumn = columns.find(column => !startedColumns.includes(column) && !completedColumns.includes(column))
+  const firstStartedColumn = columns.find(column => startedColumns.includes(column))
+  const firstCompletedColumn = columns.find(column => completedColumns.includes(column))
+
+  const taskDates = tasks.map(task => {
+    const started = toTime(task.metadata.started)
+    const completed = toTime(task.metadata.completed)
+    return {
+      column: task.column as string,
+      // Tasks without a created date are assumed to have existed when they were first started or completed
+      created: toTime(task.metadata.created) ?? started ?? completed ?? -Infinity,
+      started,
+      completed
+    }
+  })
+
+  // Get the column a task was (probably) in at a given time, or null if it didn't exist yet
+  const columnAt = (task: typeof taskDates[number], time: number): string | null => {
+    if (time < task.created) return null
+    if (task.completed !== null && task.completed <= time) {
+      return completedColumns.includes(task.column) ? task.column : firstCompletedColumn ?? task.column
+    }
+    if (task.started !== null && task.started <= time) {
+      return completedColumns.includes(task.column) ? firstStartedColumn ?? task.column : task.column
+    }
+    return startedColumns.includes(task.column) || completedColumns.includes(task.column)
+      ? firstColumn ?? task.column
+      : task.column
+  }
+
+  const start = from.getTime()
+  const end = to.getTime()
+  const step = Math.max(DAY, Math.ceil((end - start) / DAY / maxDataPoints) * DAY)
+  const series: CumulativeFlowData['series'] = []
+  for (let time = start; time <= end; time += step) {
+    const counts = columns.map(() => 0)
+    for (const task of taskDates) {
+      const column = columnAt(task, time)
+      const i = column !== null ? columns.indexOf(column) : -1
+      if (i !== -1) {
+        counts[i]++
+      }
+    }
+    series.push({ x: new Date(time), counts })
+  }
+  return { columns, series }
+}
@@ -0,0 +1,44 @@
+const DAY = 24 * 60 * 60 * 1000
+
+// Flow metrics for a single task. Times are in days, and are null if the task isn't completed (or, for cycle time, was
+// never started).
+export interface FlowMetricsTask {
+  id: string
+  name: string
+  column: string
+  assigned: string | null
+  tags: string[]
+  created: Date | null
+  started: Date | null
+  completed: Date | null
+  leadTime: number | null
+  cycleTime: number | null
+}
+
+// Parse a task date, which may be a Date or a string
+function toDate (value: any): Date | null {
+  if (value == null) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// Get lead time (created to completed) and cycle time (started to completed) for each task
+export default function getFlowMetrics (tasks: any[]): FlowMetricsTask[] {
+  return tasks.map(task => {
+    const created = toDate(task.metadata.created)
+    const started = toDate(task.metadata.started)
+    const completed = toDate(task.metadata.completed)
+    return {
+      id: task.id,
+      name: task.name,
+      column: task.column,
+      assigned: task.metadata.assigned ?? null,
+      tags: task.metadata.tags ?? [],
+      created,
+      started,
+      completed,
+      leadTime: created !== null && completed !== null ? Math.max(0, completed.getTime() - created.getTime()) / DAY : null,
+      cycleTime: started !== null && completed !== null ? Math.max(0, completed.getTime() - started.getTime()) / DAY : null
+    }
+  })
+}
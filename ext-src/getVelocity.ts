@@ -0,0 +1,74 @@
+// The number of sprints included in the rolling average
+const rollingAverageSprints = 3
+
+export interface VelocitySprint {
+  name: string
+  start: Date
+  committed: number
+  completed: number
+  average: number
+}
+
+// Parse a task or sprint date, which may be a Date or a string
+function toTime (value: any): number | null {
+  if (value == null) return null
+  const time = new Date(value).getTime()
+  return isNaN(time) ? null : time
+}
+
+// Sum the workload of some tasks
+function totalWorkload (tasks: any[]): number {
+  return tasks.reduce((a: number, task) => a + Number(task.workload ?? 0), 0)
+}
+
+// Get the committed and completed workload for each sprint that has started, and the rolling average of completed
+// workload over the last few sprints.
+//
+// Closed sprints use the workload recorded in their close-out report. Otherwise, if tasks have been assigned to the
+// sprint, its committed workload is the workload of those tasks, and its completed workload is the workload of those
+// that are completed. Sprints without assigned tasks (e.g. started from the board's sprint button) count tasks that were
+// in progress at some point during the sprint as committed, and tasks completed during the sprint as completed. A
+// sprint without an end date ends when the next sprint starts.
+export default function getVelocity (index: any, tasks: any[]): VelocitySprint[] {
+  const completedColumns: string[] = index.options.completedColumns ?? []
+  const sprints: any[] = index.options.sprints ?? []
+  const now = Date.now()
+  const velocity: VelocitySprint[] = []
+  sprints.forEach((sprint, i) => {
+    const start = toTime(sprint.start)
+    if (start === null || start > now) return
+    let committed: number
+    let completed: number
+    const assigned = tasks.filter(task => task.metadata.sprint === sprint.name)
+    if (sprint.report != null) {
+      committed = Number(sprint.report.committedWorkload ?? 0)
+      completed = Number(sprint.report.completedWorkload ?? 0)
+    } else if (assigned.length > 0) {
+      committed = totalWorkload(assigned)
+      completed = totalWorkload(assigned.filter(task =>
+        task.metadata.completed != null || completedColumns.includes(task.column)
+      ))
+    } else {
+      const end = toTime(sprint.end) ?? (i < sprints.length - 1 ? toTime(sprints[i + 1].start) : null) ?? now
+      const active = tasks.filter(task => {
+        const taskStarted = toTime(task.metadata.started)
+        const taskCompleted = toTime(task.metadata.completed)
+        return taskStarted !== null && taskStarted < end && (taskCompleted === null || taskCompleted >= start)
+      })
+      committed = totalWorkload(active)
+      completed = totalWorkload(tasks.filter(task => {
+        const taskCompleted = toTime(task.metadata.completed)
+        return taskCompleted !== null && taskCompleted >= start && taskCompleted < end
+      }))
+    }
+    const recent = [...velocity.slice(1 - rollingAverageSprints).map(v => v.completed), completed]
+    velocity.push({
+      name: sprint.name,
+      start: new Date(start),
+      committed,
+      completed,
+      average: recent.reduce((a, b) => a + b, 0) / recent.length
+    })
+  })
+  return velocity
+}
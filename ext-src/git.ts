@@ -0,0 +1,114 @@
+import * as vscode from 'vscode'
+
+// The parts of the built-in git extension's API (see extensions/git/src/api/git.d.ts in the VS Code repository) that are
+// used here
+export interface Branch {
+  readonly name?: string
+  readonly commit?: string
+}
+
+export interface Commit {
+  readonly hash: string
+  readonly message: string
+  readonly authorName?: string
+  readonly authorDate?: Date
+}
+
+export interface RepositoryState {
+  readonly HEAD: Branch | undefined
+  readonly onDidChange: vscode.Event<void>
+}
+
+export interface Repository {
+  readonly rootUri: vscode.Uri
+  readonly state: RepositoryState
+  getBranch: (name: string) => Promise<Branch>
+  createBranch: (name: string, checkout: boolean, ref?: string) => Promise<void>
+  checkout: (treeish: string) => Promise<void>
+  getMergeBase: (ref1: string, ref2: string) => Promise<string | undefined>
+  log: (options?: { maxEntries?: number, path?: string }) => Promise<Commit[]>
+  show: (ref: string, path: string) => Promise<string>
+}
+
+export interface GitAPI {
+  readonly repositories: Repository[]
+  readonly onDidOpenRepository: vscode.Event<Repository>
+  getRepository: (uri: vscode.Uri) => Repository | null
+  toGitUri: (uri: vscode.Uri, ref: string) => vscode.Uri
+}
+
+interface GitExtension {
+  readonly enabled: boolean
+  getAPI: (version: 1) => GitAPI
+}
+
+// Get the built-in git extension's API, or null if the extension is missing or disabled
+export async function getGitApi (): Promise<GitAPI | null> {
+  const extension = vscode.extensions.getExtension<GitExtension>('vscode.git')
+  if (extension === undefined) return null
+  const gitExtension = extension.isActive ? extension.exports : await extension.activate()
+  return gitExtension.enabled ? gitExtension.getAPI(1) : null
+}
+
+// Get the name of the branch for working on a task
+export function taskBranchName (taskId: string): string {
+  return `${vscode.workspace.getConfiguration('kanbn').get<string>('gitBranchPrefix') ?? ''}${taskId}`
+}
+
+// Check out a branch, creating it from the current HEAD if it doesn't exist
+export async function checkoutBranch (repository: Repository, branchName: string): Promise<void> {
+  let exists = true
+  try {
+    await repository.getBranch(branchName)
+  } catch (e) {
+    exists = false
+  }
+  if (exists) {
+    await repository.checkout(branchName)
+  } else {
+    await repository.createBranch(branchName, true)
+  }
+}
+
+// Get the name of the repository's main branch, either from the configuration or by looking for 'main' or 'master'
+export async function findMainBranch (repository: Repository): Promise<string | null> {
+  const configured = vscode.workspace.getConfiguration('kanbn').get<string>('gitMainBranch') ?? ''
+  for (const branchName of configured !== '' ? [configured] : ['main', 'master']) {
+    try {
+      await repository.getBranch(branchName)
+      return branchName
+    } catch (e) {}
+  }
+  return null
+}
+
+// Check whether all of a branch's commits are on another branch. Resolves to null if the branch doesn't exist.
+export async function isMerged (repository: Repository, branchName: string, into: string): Promise<boolean | null> {
+  let branch: Branch
+  try {
+    branch = await repository.getBranch(branchName)
+  } catch (e) {
+    return null
+  }
+  if (branch.commit === undefined) return null
+  return await repository.getMergeBase(into, branch.commit) === branch.commit
+}
+
+// A task referenced in a commit message by a 'Closes kanbn:<id>' or 'Refs kanbn:<id>' line
+export interface CommitReference {
+  taskId: string
+  closes: boolean
+}
+
+// Find the tasks referenced in a commit message. Each task is only returned once, and closes it if any of its
+// references do.
+export function parseCommitReferences (message: string): CommitReference[] {
+  const references = new Map<string, boolean>()
+  const pattern = /\b(closes|refs):?\s+kanbn:([a-z0-9][a-z0-9-]*)/gi
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(message)) !== null) {
+    const taskId = match[2].toLowerCase()
+    references.set(taskId, (references.get(taskId) ?? false) || match[1].toLowerCase() === 'closes')
+  }
+  return [...references].map(([taskId, closes]) => ({ taskId, closes }))
+}
@@ -0,0 +1,242 @@
+import { parseCsv } from './csv'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+import { paramCase } from '@basementuniverse/kanbn/src/utility'
+
+export type ImportSource = 'trello' | 'github' | 'jira'
+
+export interface ImportedTask {
+  name: string
+  description: string
+  // The list or status the task was in, which is mapped to a column when importing
+  column: string
+  tags: string[]
+  assigned: string | null
+  priority: string | null
+  created: Date | null
+  due: Date | null
+  completed: Date | null
+  subTasks: Array<{ text: string, completed: boolean }>
+  comments: Array<{ author: string, date: Date, text: string }>
+}
+
+// A board read from another tool's export file, with its lists or statuses in order
+export interface ImportedBoard {
+  name: string
+  description: string
+  columns: string[]
+  tasks: ImportedTask[]
+}
+
+function parseDate (value: any): Date | null {
+  if (value === undefined || value === null || value === '') return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// Add the lists or statuses used by some tasks to a board's columns, in the order they're first used
+function addColumns (columns: string[], tasks: ImportedTask[]): string[] {
+  return [...new Set([...columns, ...tasks.map(task => task.column)])]
+}
+
+// Find the checklist items in some Markdown text, e.g. the task lists in a GitHub issue
+function markdownChecklist (text: string): Array<{ text: string, completed: boolean }> {
+  const items: Array<{ text: string, completed: boolean }> = []
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^\s*[-*]\s+\[([ xX])\]\s+(.+)$/.exec(line)
+    if (match !== null) items.push({ text: match[2].trim(), completed: match[1] !== ' ' })
+  }
+  return items
+}
+
+// Read a Trello board exported as JSON. Archived lists and cards are left out.
+function parseTrello (data: any): ImportedBoard {
+  if (!Array.isArray(data.lists) || !Array.isArray(data.cards)) {
+    throw new Error('This isn\'t a Trello board export. Export the board as JSON from its menu in Trello.')
+  }
+  const lists = new Map<string, any>(data.lists.map((list: any) => [list.id, list]))
+  const members = new Map<string, string>((data.members ?? []).map((member: any) => [member.id, member.fullName ?? member.username]))
+  const checklists: any[] = data.checklists ?? []
+  const comments: any[] = (data.actions ?? []).filter((action: any) => action.type === 'commentCard')
+  const tasks: ImportedTask[] = data.cards
+    .filter((card: any) => card.closed !== true && lists.get(card.idList)?.closed !== true)
+    .sort((a: any, b: any) => (a.pos ?? 0) - (b.pos ?? 0))
+    .map((card: any): ImportedTask => ({
+      name: String(card.name),
+      description: card.desc ?? '',
+      column: String(lists.get(card.idList)?.name ?? 'Backlog'),
+      tags: (card.labels ?? []).map((label: any) => String(label.name !== '' ? label.name : label.color)).filter((tag: string) => tag !== ''),
+      assigned: (card.idMembers ?? []).map((id: string) => members.get(id)).find((name: string | undefined) => name !== undefined) ?? null,
+      priority: null,
+      // Trello ids start with the time the card was created, in seconds
+      created: /^[0-9a-f]{8}/.test(String(card.id)) ? new Date(parseInt(String(card.id).slice(0, 8), 16) * 1000) : null,
+      due: parseDate(card.due),
+      completed: card.dueComplete === true ? parseDate(card.dateLastActivity) : null,
+      subTasks: checklists
+        .filter(checklist => checklist.idCard === card.id)
+        .flatMap(checklist => [...(checklist.checkItems ?? [])].sort((a: any, b: any) => (a.pos ?? 0) - (b.pos ?? 0)))
+        .map((item: any) => ({ text: String(item.name), completed: item.state === 'complete' })),
+      comments: comments
+        .filter(action => action.data?.card?.id === card.id)
+        .map(action => ({
+          author: String(action.memberCreator?.fullName ?? action.memberCreator?.username ?? ''),
+          date: parseDate(action.date) ?? new Date(),
+          text: String(action.data.text)
+        }))
+        .sort((a, b) => a.date.getTime() - b.date.getTime())
+    }))
+  const columns = data.lists
+    .filter((list: any) => list.closed !== true)
+    .sort((a: any, b: any) => (a.pos ?? 0) - (b.pos ?? 0))
+    .map((list: any) => String(list.name))
+  return { name: data.name ?? 'Trello board', description: data.desc ?? '', columns: addColumns(columns, tasks), tasks }
+}
+
+// Read a GitHub issue, from the REST API or the GitHub CLI's JSON output
+function gitHubIssue (issue: any, column: string): ImportedTask {
+  const login = (user: any): string => String(user?.login ?? user?.name ?? user ?? '')
+  const body = String(issue.body ?? '')
+  const closedAt = issue.closed_at ?? issue.closedAt
+  const assignees: any[] = issue.assignees ?? (issue.assignee != null ? [issue.assignee] : [])
+  return {
+    name: String(issue.title),
+    description: body,
+    column,
+    tags: (issue.labels ?? []).map((label: any) => String(label.name ?? label)).filter((tag: string) => tag !== ''),
+    assigned: assignees.length > 0 ? login(assignees[0]) : null,
+    priority: null,
+    created: parseDate(issue.created_at ?? issue.createdAt),
+    due: parseDate(issue.milestone?.due_on ?? issue.milestone?.dueOn),
+    completed: parseDate(closedAt),
+    subTasks: markdownChecklist(body),
+    comments: (Array.isArray(issue.comments) ? issue.comments : []).map((comment: any) => ({
+      author: login(comment.author ?? comment.user),
+      date: parseDate(comment.created_at ?? comment.createdAt) ?? new Date(),
+      text: String(comment.body ?? '')
+    }))
+  }
+}
+
+// Read a GitHub Projects item list (from 'gh project item-list --format json') or a list of issues (from the REST API
+// or 'gh issue list --json ...'). Project items are put in their status column, and issues in Open or Closed.
+function parseGitHub (data: any): ImportedBoard {
+  if (Array.isArray(data?.items)) {
+    const tasks = data.items.map((item: any) => gitHubIssue(
+      { ...item.content, labels: item.labels ?? item.content?.labels, assignees: item.assignees ?? item.content?.assignees },
+      String(item.status ?? 'No status')
+    ))
+    return { name: 'GitHub project', description: '', columns: addColumns([], tasks), tasks }
+  }
+  const issues: any[] = Array.isArray(data) ? data : []
+  if (issues.length === 0 || issues[0].title === undefined) {
+    throw new Error('This isn\'t a GitHub issues or project export. Use \'gh issue list --json\' or \'gh project item-list --format json\'.')
+  }
+  const tasks = issues
+    .filter(issue => issue.pull_request === undefined)
+    .map(issue => gitHubIssue(issue, String(issue.state).toLowerCase() === 'closed' ? 'Closed' : 'Open'))
+  return { name: 'GitHub issues', description: '', columns: addColumns(['Open', 'Closed'], tasks), tasks }
+}
+
+// Parse a date in Jira's CSV export format, e.g. '12/Mar/23 10:15 AM', or any format Date can read
+function parseJiraDate (value: string): Date | null {
+  const match = /^(\d{1,2})\/(\w{3})\/(\d{2,4})(?: (\d{1,2}):(\d{2})(?: (AM|PM))?)?$/i.exec(value.trim())
+  if (match === null) return parseDate(value)
+  const month = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'].indexOf(match[2].toLowerCase())
+  if (month === -1) return parseDate(value)
+  const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3])
+  let hours = Number(match[4] ?? 0) % 12
+  if (match[6]?.toUpperCase() === 'PM' || (match[6] === undefined && Number(match[4] ?? 0) >= 12)) hours += 12
+  return new Date(year, month, Number(match[1]), hours, Number(match[5] ?? 0))
+}
+
+// Read a Jira CSV export. Jira repeats columns such as Labels and Comment for each value. Sub-task issues become
+// sub-tasks of their parent issue, and are completed if they've been resolved.
+function parseJira (text: string): ImportedBoard {
+  const [headers, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''))
+  if (headers === undefined || !headers.includes('Summary')) {
+    throw new Error('This isn\'t a Jira CSV export. Export the issues from a Jira search as CSV (all fields).')
+  }
+  const value = (row: string[], header: string): string => row[headers.indexOf(header)] ?? ''
+  const values = (row: string[], header: string): string[] =>
+    headers.flatMap((h, i) => h === header && (row[i] ?? '') !== '' ? [row[i]] : [])
+  const parentId = (row: string[]): string => value(row, 'Parent id') !== '' ? value(row, 'Parent id') : value(row, 'Parent')
+  const issues = rows.filter(row => parentId(row) === '')
+  const subTasks = rows.filter(row => parentId(row) !== '')
+  const tasks = issues.map((row): ImportedTask => ({
+    name: value(row, 'Summary'),
+    description: value(row, 'Description'),
+    column: value(row, 'Status') !== '' ? value(row, 'Status') : 'Backlog',
+    tags: [...values(row, 'Labels'), ...(value(row, 'Issue Type') !== '' ? [value(row, 'Issue Type')] : [])],
+    assigned: value(row, 'Assignee') !== '' ? value(row, 'Assignee') : null,
+    priority: value(row, 'Priority') !== '' ? value(row, 'Priority') : null,
+    created: parseJiraDate(value(row, 'Created')),
+    due: parseJiraDate(value(row, 'Due Date')),
+    completed: parseJiraDate(value(row, 'Resolved')),
+    subTasks: subTasks
+      .filter(subTask => parentId(subTask) === value(row, 'Issue id') || parentId(subTask) === value(row, 'Issue key'))
+      .map(subTask => ({ text: value(subTask, 'Summary'), completed: value(subTask, 'Resolved') !== '' })),
+    // Comments are exported as 'date;author;text'
+    comments: values(row, 'Comment').map(comment => {
+      const [date, author, ...rest] = comment.split(';')
+      return rest.length > 0
+        ? { author, date: parseJiraDate(date) ?? new Date(), text: rest.join(';') }
+        : { author: '', date: new Date(), text: comment }
+    })
+  }))
+  const project = issues.length > 0 ? value(issues[0], 'Project name') : ''
+  return { name: project !== '' ? project : 'Jira project', description: '', columns: addColumns([], tasks), tasks }
+}
+
+// Read an export file from Trello, GitHub or Jira
+export function parseImport (source: ImportSource, contents: string): ImportedBoard {
+  switch (source) {
+    case 'trello': return parseTrello(JSON.parse(contents))
+    case 'github': return parseGitHub(JSON.parse(contents))
+    case 'jira': return parseJira(contents)
+  }
+}
+
+// Give tasks with the same id (i.e. the same name once it's converted to an id) unique names, since Kanbn can't create
+// two tasks with the same id
+function uniqueNames (tasks: ImportedTask[]): ImportedTask[] {
+  const ids = new Set<string>()
+  return tasks.map(task => {
+    let name = task.name.trim() !== '' ? task.name.trim() : 'Untitled'
+    for (let i = 2; ids.has(paramCase(name)); i++) {
+      name = `${task.name.trim() !== '' ? task.name.trim() : 'Untitled'} (${i})`
+    }
+    ids.add(paramCase(name))
+    return { ...task, name }
+  })
+}
+
+// Initialise a board with the imported columns and create its tasks. The columns map each imported list or status to
+// a column name; tasks in lists or statuses that aren't mapped are left out. Resolves to the number of tasks created.
+export default async function importBoard (
+  kanbn: Kanbn,
+  board: ImportedBoard,
+  name: string,
+  columns: Record<string, string>
+): Promise<number> {
+  const target = (column: string): string => (columns[column] ?? column).trim()
+  const columnNames = [...new Set(board.columns.map(target).filter(column => column !== ''))]
+  await kanbn.initialise({ name, description: board.description, columns: columnNames })
+  const tasks = uniqueNames(board.tasks.filter(task => target(task.column) !== ''))
+  for (const task of tasks) {
+    const metadata: any = {}
+    if (task.created !== null) metadata.created = task.created
+    if (task.due !== null) metadata.due = task.due
+    if (task.completed !== null) metadata.completed = task.completed
+    if (task.assigned !== null) metadata.assigned = task.assigned
+    if (task.priority !== null) metadata.priority = task.priority
+    if (task.tags.length > 0) metadata.tags = task.tags
+    await kanbn.createTask({
+      name: task.name,
+      description: task.description,
+      metadata,
+      subTasks: task.subTasks,
+      relations: [],
+      comments: task.comments
+    }, target(task.column))
+  }
+  return tasks.length
+}
@@ -0,0 +1,59 @@
+// A task parsed from a line of markdown, with its nested checklist items as sub-tasks
+export interface ChecklistTask {
+  name: string
+  tags: string[]
+  subTasks: Array<{ text: string, completed: boolean }>
+}
+
+interface ChecklistLine {
+  indent: number
+  text: string
+  completed: boolean
+  heading: boolean
+}
+
+// Parse a line, removing any heading, list item or checkbox marker
+function parseLine (line: string): ChecklistLine | null {
+  if (line.trim() === '') return null
+  const indent = (line.match(/^\s*/) as RegExpMatchArray)[0].replace(/\t/g, '    ').length
+  let text = line.trim()
+  const heading = /^#{1,6}\s+/.test(text)
+  text = text.replace(/^#{1,6}\s+/, '').replace(/^(?:[-*+]|\d+[.)])\s+/, '')
+  let completed = false
+  const checkbox = text.match(/^\[([ xX])\]\s*/)
+  if (checkbox !== null) {
+    completed = checkbox[1] !== ' '
+    text = text.slice(checkbox[0].length)
+  }
+  return text !== '' ? { indent, text, completed, heading } : null
+}
+
+// Split #tags out of some text
+function extractTags (text: string): { text: string, tags: string[] } {
+  const tags: string[] = []
+  const remaining = text.replace(/(^|\s)#([\w-]+)/g, (match, space: string, tag: string) => {
+    tags.push(tag)
+    return space
+  })
+  return { text: remaining.replace(/\s+/g, ' ').trim(), tags }
+}
+
+// Convert markdown lines (checklist items, headings or plain lines) into tasks. Each line becomes a task, except for
+// lines indented more deeply than the task above them, which become sub-tasks of that task.
+export default function parseChecklist (markdown: string): ChecklistTask[] {
+  const tasks: ChecklistTask[] = []
+  let taskIndent = 0
+  for (const line of markdown.split(/\r?\n/).map(parseLine)) {
+    if (line === null) continue
+    const { text, tags } = extractTags(line.text)
+    const current = tasks[tasks.length - 1]
+    if (current !== undefined && !line.heading && line.indent > taskIndent) {
+      current.tags.push(...tags.filter(tag => !current.tags.includes(tag)))
+      current.subTasks.push({ text: text !== '' ? text : line.text, completed: line.completed })
+    } else if (text !== '') {
+      tasks.push({ name: text, tags, subTasks: [] })
+      taskIndent = line.indent
+    }
+  }
+  return tasks
+}
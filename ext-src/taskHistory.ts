@@ -0,0 +1,164 @@
+import * as path from 'path'
+import { Repository } from './git'
+import { md2json as parseTask } from '@basementuniverse/kanbn/src/parse-task'
+import { md2json as parseIndex } from '@basementuniverse/kanbn/src/parse-index'
+
+// The number of commits to read for the task file and the index
+const maxRevisions = 100
+
+// A commit that changed a task, either by changing its file or by moving it to another column in the index
+export interface TaskRevision {
+  hash: string
+  date: Date | null
+  author: string
+  message: string
+  changes: string[]
+  // Whether the commit changed the task file (so it can be viewed as a diff and restored), and whether the task file
+  // existed before the commit
+  taskFileChanged: boolean
+  hasParent: boolean
+}
+
+// Format a metadata value for a change description
+function formatValue (value: any): string {
+  if (value instanceof Date) return value.toISOString().split('T')[0]
+  if (Array.isArray(value)) return value.map(formatValue).join(', ')
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value)
+  return String(value)
+}
+
+// Shorten some text for a change description
+function excerpt (text: string, length: number = 60): string {
+  const line = text.replace(/\s+/g, ' ').trim()
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line
+}
+
+// Describe the changes between two versions of a task
+function describeTaskChanges (before: any, after: any): string[] {
+  const changes: string[] = []
+  if (before.name !== after.name) {
+    changes.push(`Renamed from '${before.name as string}' to '${after.name as string}'`)
+  }
+  if ((before.description ?? '') !== (after.description ?? '')) {
+    changes.push('Changed the description')
+  }
+  const keys = new Set([...Object.keys(before.metadata ?? {}), ...Object.keys(after.metadata ?? {})])
+  for (const key of [...keys].filter(key => key !== 'updated')) {
+    const from = before.metadata?.[key]
+    const to = after.metadata?.[key]
+    if (JSON.stringify(from) === JSON.stringify(to)) continue
+    if (to === undefined) {
+      changes.push(`Removed ${key}`)
+    } else if (from === undefined) {
+      changes.push(`Set ${key} to ${formatValue(to)}`)
+    } else {
+      changes.push(`Changed ${key} from ${formatValue(from)} to ${formatValue(to)}`)
+    }
+  }
+  const subTasksBefore: any[] = before.subTasks ?? []
+  const subTasksAfter: any[] = after.subTasks ?? []
+  for (const subTask of subTasksAfter) {
+    const previous = subTasksBefore.find(s => s.text === subTask.text)
+    if (previous === undefined) {
+      changes.push(`Added sub-task '${excerpt(subTask.text)}'`)
+    } else if (previous.completed !== subTask.completed) {
+      changes.push(`${subTask.completed === true ? 'Completed' : 'Reopened'} sub-task '${excerpt(subTask.text)}'`)
+    }
+  }
+  for (const subTask of subTasksBefore.filter(s => !subTasksAfter.some(t => t.text === s.text))) {
+    changes.push(`Removed sub-task '${excerpt(subTask.text)}'`)
+  }
+  const relationKey = (relation: any): string => `${relation.type as string} ${relation.task as string}`.trim()
+  const relationsBefore: string[] = (before.relations ?? []).map(relationKey)
+  const relationsAfter: string[] = (after.relations ?? []).map(relationKey)
+  for (const relation of relationsAfter.filter(r => !relationsBefore.includes(r))) {
+    changes.push(`Added relation '${relation}'`)
+  }
+  for (const relation of relationsBefore.filter(r => !relationsAfter.includes(r))) {
+    changes.push(`Removed relation '${relation}'`)
+  }
+  const commentKey = (comment: any): string => `${String(comment.author)}\n${String(comment.text)}`
+  const commentsBefore: string[] = (before.comments ?? []).map(commentKey)
+  const commentsAfter: any[] = after.comments ?? []
+  for (const comment of commentsAfter.filter(c => !commentsBefore.includes(commentKey(c)))) {
+    const author = String(comment.author ?? '') !== '' ? ` by ${String(comment.author)}` : ''
+    changes.push(`Comment${author}: ${excerpt(String(comment.text))}`)
+  }
+  const removedComments = commentsBefore.filter(c => !commentsAfter.some(d => commentKey(d) === c)).length
+  if (removedComments > 0) {
+    changes.push(`Removed ${removedComments} comment${removedComments === 1 ? '' : 's'}`)
+  }
+  return changes
+}
+
+// Get the history of a task from the commits that changed its file or its column in the index, newest first
+export default async function getTaskHistory (
+  repository: Repository,
+  kanbnFolderName: string,
+  taskId: string
+): Promise<TaskRevision[]> {
+  const taskPath = path.join(kanbnFolderName, '.kanbn', 'tasks', `${taskId}.md`)
+  const indexPath = path.join(kanbnFolderName, '.kanbn', 'index.md')
+  const revisions = new Map<string, TaskRevision>()
+  const revision = (commit: { hash: string, message: string, authorName?: string, authorDate?: Date }): TaskRevision => {
+    let result = revisions.get(commit.hash)
+    if (result === undefined) {
+      result = {
+        hash: commit.hash,
+        date: commit.authorDate ?? null,
+        author: commit.authorName ?? '',
+        message: commit.message.split('\n')[0],
+        changes: [],
+        taskFileChanged: false,
+        hasParent: false
+      }
+      revisions.set(commit.hash, result)
+    }
+    return result
+  }
+
+  // Compare each version of the task file with the one before it (commits are listed newest first)
+  const taskCommits = (await repository.log({ path: taskPath, maxEntries: maxRevisions })).reverse()
+  let previousTask: any = null
+  for (const commit of taskCommits) {
+    let task: any = null
+    try {
+      task = parseTask(await repository.show(commit.hash, taskPath))
+    } catch (e) {}
+    const result = revision(commit)
+    result.taskFileChanged = task !== null
+    result.hasParent = previousTask !== null
+    if (task === null) {
+      result.changes.push('Deleted or archived the task file')
+    } else if (previousTask === null) {
+      result.changes.push(taskCommits.length < maxRevisions || commit !== taskCommits[0] ? 'Created the task' : 'Changed the task')
+    } else {
+      const changes = describeTaskChanges(previousTask, task)
+      result.changes.push(...(changes.length > 0 ? changes : ['Changed the task file']))
+    }
+    previousTask = task
+  }
+
+  // Find the commits that changed the task's column in the index
+  const indexCommits = (await repository.log({ path: indexPath, maxEntries: maxRevisions })).reverse()
+  let previousColumn: string | null = null
+  for (const commit of indexCommits) {
+    let column: string | null = null
+    try {
+      const index = parseIndex(await repository.show(commit.hash, indexPath))
+      column = Object.keys(index.columns).find(c => (index.columns[c] as string[]).includes(taskId)) ?? null
+    } catch (e) {
+      continue
+    }
+    if (column !== previousColumn) {
+      revision(commit).changes.unshift(
+        previousColumn === null
+          ? `Added to ${column as string}`
+          : column === null ? `Removed from ${previousColumn}` : `Moved from ${previousColumn} to ${column}`
+      )
+    }
+    previousColumn = column
+  }
+
+  return [...revisions.values()].sort((a, b) => (b.date?.getTime() ?? 0) - (a.date?.getTime() ?? 0))
+}
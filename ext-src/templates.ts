@@ -0,0 +1,72 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { md2json } from '@basementuniverse/kanbn/src/parse-task'
+
+// A task template loaded from .kanbn/templates. The task contains the template's description, metadata (e.g. tags and
+// custom field defaults), sub-tasks and relations, and is used to pre-fill the task editor.
+export interface KanbnTemplate {
+  name: string
+  fileName: string
+  column: string | null
+  task: any
+}
+
+// Get the path of the folder containing a board's task templates
+export function templatesPath (kanbnFolderName: string): string {
+  return path.join(kanbnFolderName, '.kanbn', 'templates')
+}
+
+// Errors from templates that couldn't be loaded, so each broken template is only reported once
+const reportedErrors = new Set<string>()
+
+// Load all task templates for a board, sorted by name. Templates are task files where the task name is used as the
+// template name, and a 'column' property in the metadata sets the column that new tasks are created in.
+export default function loadTemplates (kanbnFolderName: string): KanbnTemplate[] {
+  const folderPath = templatesPath(kanbnFolderName)
+  if (!fs.existsSync(folderPath)) return []
+  const templates: KanbnTemplate[] = []
+  for (const fileName of fs.readdirSync(folderPath).filter(file => file.endsWith('.md'))) {
+    try {
+      const task = md2json(fs.readFileSync(path.join(folderPath, fileName), 'utf8'))
+      const column: string | null = typeof task.metadata?.column === 'string' ? task.metadata.column : null
+      const metadata = { ...task.metadata, tags: task.metadata?.tags ?? [] }
+      delete metadata.column
+      templates.push({
+        name: task.name,
+        fileName,
+        column,
+        task: { ...task, metadata }
+      })
+    } catch (e) {
+      if (e instanceof Error) {
+        const error = `Couldn't load task template ${fileName}: ${e.message}`
+        if (!reportedErrors.has(`${folderPath}\n${error}`)) {
+          reportedErrors.add(`${folderPath}\n${error}`)
+          void vscode.window.showErrorMessage(error)
+        }
+      } else {
+        throw e
+      }
+    }
+  }
+  return templates.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// Prompt for a task template. Resolves to null for a blank task (if allowed), or undefined if the prompt was cancelled.
+export async function chooseTemplate (
+  templates: KanbnTemplate[],
+  allowBlank: boolean
+): Promise<KanbnTemplate | null | undefined> {
+  const items: Array<vscode.QuickPickItem & { template: KanbnTemplate | null }> = [
+    ...(allowBlank ? [{ label: 'Blank task', template: null }] : []),
+    ...templates.map(template => ({
+      label: template.name,
+      description: template.fileName,
+      detail: template.column !== null ? `Created in ${template.column}` : undefined,
+      template
+    }))
+  ]
+  const item = await vscode.window.showQuickPick(items, { placeHolder: 'Select a task template' })
+  return item?.template
+}
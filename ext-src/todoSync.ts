@@ -0,0 +1,145 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as vscode from 'vscode'
+import { Kanbn } from '@basementuniverse/kanbn/src/main'
+import { paramCase } from '@basementuniverse/kanbn/src/utility'
+
+// Files larger than this are skipped when scanning for comments
+const maxFileSize = 1024 * 1024
+
+// A TODO comment found in a workspace file. The key identifies the comment across syncs even if it moves to another
+// line, and is stored in the 'todo' metadata property of the comment's task.
+export interface TodoComment {
+  file: string
+  line: number
+  keyword: string
+  text: string
+  key: string
+}
+
+export interface TodoSyncResult {
+  created: number
+  updated: number
+  archived: string[]
+  failed: string[]
+}
+
+// Escape a string for use in a regular expression
+function escapeRegExp (s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Get the location of a comment, as used in its task's attachment
+function location (todo: TodoComment): string {
+  return `${todo.file}:${todo.line}`
+}
+
+// Comment markers that start a comment at the beginning of a line, and ones that can also start a comment after code
+const lineCommentStart = '(?://|#|/\\*|\\*|<!--|--|;)'
+const trailingCommentStart = '(?://|#|/\\*|<!--)'
+
+// Find TODO comments in the workspace files matching the configured globs. Comments are recognised by one of the
+// configured keywords (followed by a colon, unless that's turned off) at the start of a comment, e.g.
+// '// TODO: something' or 'x = 1 # FIXME: something'.
+export async function findTodos (workspacePath: string): Promise<TodoComment[]> {
+  const config = vscode.workspace.getConfiguration('kanbn')
+  const include = config.get<string>('todoInclude') ?? '**/*'
+  const exclude = config.get<string>('todoExclude') ?? ''
+  const keywords = config.get<string[]>('todoKeywords') ?? ['TODO', 'FIXME']
+  const colon = config.get<boolean>('todoRequireColon') === false ? ':?' : ':'
+  if (keywords.length === 0) return []
+  const pattern = new RegExp(
+    `(?:^\\s*${lineCommentStart}|\\s${trailingCommentStart})\\s*(${keywords.map(escapeRegExp).join('|')})\\b${colon}` +
+    '\\s*(.*?)\\s*(?:\\*/|-->)?\\s*$'
+  )
+  const todos: TodoComment[] = []
+  const uris = await vscode.workspace.findFiles(include, exclude !== '' ? exclude : null)
+  for (const uri of uris.sort((a, b) => a.fsPath.localeCompare(b.fsPath))) {
+    if ((await fs.promises.stat(uri.fsPath)).size > maxFileSize) continue
+    const file = path.relative(workspacePath, uri.fsPath).split(path.sep).join('/')
+    const occurrences = new Map<string, number>()
+    const lines = (await fs.promises.readFile(uri.fsPath, 'utf8')).split(/\r?\n/)
+    lines.forEach((line, i) => {
+      const match = line.match(pattern)
+      if (match === null || match[2] === '') return
+
+      // Comments with the same text in the same file are told apart by their order
+      const occurrence = occurrences.get(match[2]) ?? 0
+      occurrences.set(match[2], occurrence + 1)
+      todos.push({
+        file,
+        line: i + 1,
+        keyword: match[1],
+        text: match[2],
+        key: `${file}: ${match[2]}${occurrence > 0 ? ` (${occurrence + 1})` : ''}`
+      })
+    })
+  }
+  return todos
+}
+
+// Create a task for each new TODO comment, update the location of tasks whose comment has moved, and archive tasks
+// whose comment has been removed. Tasks for TODO comments are found by their 'todo' metadata property.
+export default async function syncTodos (
+  kanbn: Kanbn,
+  todos: TodoComment[],
+  columnName: string | null
+): Promise<TodoSyncResult> {
+  const result: TodoSyncResult = { created: 0, updated: 0, archived: [], failed: [] }
+  const index = await kanbn.getIndex()
+  const tasks: any[] = (await kanbn.loadAllTrackedTasks(index)).filter(task => typeof task.metadata.todo === 'string')
+  const taskIds = new Set(Object.values(index.columns).flat() as string[])
+  const column = columnName !== null && columnName in index.columns ? columnName : Object.keys(index.columns)[0]
+
+  for (const todo of todos) {
+    const attachment = { type: 'link', path: location(todo), title: location(todo) }
+    const task = tasks.find(t => t.metadata.todo === todo.key)
+    try {
+      if (task !== undefined) {
+        // Update the link to the comment if it has moved
+        const attachments: any[] = task.metadata.attachments ?? []
+        const i = attachments.findIndex(a => a.type === 'link' && a.path?.startsWith(`${todo.file}:`) === true)
+        if (i === -1 || attachments[i].path !== attachment.path) {
+          task.metadata.attachments = i === -1
+            ? [...attachments, attachment]
+            : attachments.map((a, j) => j === i ? attachment : a)
+          task.metadata.updated = new Date()
+          await kanbn.updateTask(task.id, task)
+          result.updated++
+        }
+      } else {
+        // Tasks are named after their comment, unless a task with that name already exists
+        const name = taskIds.has(paramCase(todo.text)) ? `${todo.text} (${location(todo)})` : todo.text
+        const taskId = await kanbn.createTask({
+          name,
+          description: `\`${todo.keyword}\` comment in \`${location(todo)}\`.`,
+          metadata: {
+            created: new Date(),
+            tags: [todo.keyword.toLowerCase()],
+            attachments: [attachment],
+            todo: todo.key
+          },
+          relations: [],
+          subTasks: [],
+          comments: []
+        }, column)
+        taskIds.add(taskId)
+        result.created++
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        result.failed.push(`${location(todo)} (${e.message})`)
+      } else {
+        throw e
+      }
+    }
+  }
+
+  // Archive tasks whose comment has been removed
+  const keys = new Set(todos.map(todo => todo.key))
+  for (const task of tasks.filter(t => !keys.has(t.metadata.todo))) {
+    await kanbn.archiveTask(task.id)
+    result.archived.push(task.id)
+  }
+  return result
+}
@@ -0,0 +1,384 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { md2json as parseTask, json2md as taskToMarkdown } from '@basementuniverse/kanbn/src/parse-task'
+import { md2json as parseIndex, json2md as indexToMarkdown } from '@basementuniverse/kanbn/src/parse-index'
+
+export const customFieldTypes = ['boolean', 'date', 'number', 'string']
+export const recurrenceTypes = ['daily', 'weekly', 'monthly', 'annually']
+const dateProperties = ['created', 'updated', 'started', 'completed', 'due']
+// String fields accept any scalar, since YAML reads hand-written values like 2024 or true as numbers or booleans
+const customFieldValueChecks: Record<string, (value: any) => boolean> = {
+  boolean: value => typeof value === 'boolean',
+  number: value => typeof value === 'number',
+  string: value => ['string', 'number', 'boolean'].includes(typeof value)
+}
+
+// Convert a custom field value to the custom field's type, or undefined if it can't be converted
+function convertCustomFieldValue (value: any, type: string): boolean | number | undefined {
+  const text = String(value).trim()
+  switch (type) {
+    case 'boolean':
+      if (['true', 'yes'].includes(text.toLowerCase())) return true
+      if (['false', 'no'].includes(text.toLowerCase())) return false
+      return undefined
+    case 'number':
+      return text !== '' && isFinite(Number(text)) ? Number(text) : undefined
+  }
+  return undefined
+}
+
+export type BoardProblemCode =
+  'unreadable' |
+  'orphanTask' |
+  'missingTaskFile' |
+  'duplicateTask' |
+  'missingRelation' |
+  'invalidDate' |
+  'invalidCustomFieldValue' |
+  'unknownCustomFieldType' |
+  'invalidRecurrence'
+
+// A problem found in a board's files. The line is zero-based. Problems that can be repaired have a description of the
+// fix, and the task, relation, property or custom field that the fix applies to.
+export interface BoardProblem {
+  code: BoardProblemCode
+  severity: 'error' | 'warning'
+  file: string
+  line: number
+  message: string
+  fix: string | null
+  taskId?: string
+  name?: string
+}
+
+// Find the first line matching a pattern, starting from a line, or the start line if there isn't one
+function findLine (lines: string[], pattern: RegExp, from: number = 0): number {
+  const line = lines.findIndex((text, i) => i >= from && pattern.test(text))
+  return line !== -1 ? line : from
+}
+
+function escapeRegExp (s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Check whether a metadata value is a valid date
+function isValidDate (value: any): boolean {
+  if (value instanceof Date) return !isNaN(value.getTime())
+  return (typeof value === 'string' || typeof value === 'number') && !isNaN(new Date(value).getTime())
+}
+
+// Get a description of what's wrong with a task's recurrence, or null if it's valid
+export function recurrenceProblem (recurrence: any): string | null {
+  if (typeof recurrence !== 'object' || recurrence === null) return 'Recurrence should have a type and an interval'
+  if (!recurrenceTypes.includes(recurrence.type)) {
+    return `Recurrence type should be one of ${recurrenceTypes.join(', ')}`
+  }
+  if (recurrence.interval !== undefined && !(Number.isInteger(recurrence.interval) && recurrence.interval > 0)) {
+    return 'Recurrence interval should be a positive whole number'
+  }
+  if (recurrence.dayOfMonth !== undefined && !(Number.isInteger(recurrence.dayOfMonth) && recurrence.dayOfMonth >= 1 && recurrence.dayOfMonth <= 31)) {
+    return 'Recurrence day of month should be a whole number from 1 to 31'
+  }
+  return null
+}
+
+function kanbnPaths (kanbnFolderName: string): { index: string, tasks: string, archive: string } {
+  const kanbnPath = path.join(kanbnFolderName, '.kanbn')
+  return {
+    index: path.join(kanbnPath, 'index.md'),
+    tasks: path.join(kanbnPath, 'tasks'),
+    archive: path.join(kanbnPath, 'archive')
+  }
+}
+
+// List the ids of the task files in a folder
+function listTaskIds (folderPath: string): string[] {
+  return fs.existsSync(folderPath)
+    ? fs.readdirSync(folderPath).filter(file => file.endsWith('.md')).map(file => path.basename(file, '.md'))
+    : []
+}
+
+// What's known about a board when checking one of its files: its index (or null if it can't be read), and the ids of
+// its task files and archived tasks
+interface BoardContext {
+  index: any
+  taskFileIds: Set<string>
+  knownTaskIds: Set<string>
+}
+
+async function loadBoardContext (kanbnFolderName: string): Promise<BoardContext> {
+  const paths = kanbnPaths(kanbnFolderName)
+  let index: any = null
+  try {
+    index = parseIndex(await fs.promises.readFile(paths.index, 'utf8'))
+  } catch (e) {}
+  const taskFileIds = new Set(listTaskIds(paths.tasks))
+  return { index, taskFileIds, knownTaskIds: new Set([...taskFileIds, ...listTaskIds(paths.archive)]) }
+}
+
+// Check the contents of an index file: its task entries and custom fields
+function checkIndex (filePath: string, contents: string, context: BoardContext): BoardProblem[] {
+  const problems: BoardProblem[] = []
+  let index: any
+  try {
+    index = parseIndex(contents)
+  } catch (e) {
+    if (e instanceof Error) {
+      return [{ code: 'unreadable', severity: 'error', file: filePath, line: 0, message: e.message, fix: null }]
+    }
+    throw e
+  }
+  const lines = contents.split(/\r?\n/)
+
+  // Check the index's task entries
+  const indexedIds = new Set<string>()
+  const entryLines = new Map<string, number>()
+  for (const columnName of Object.keys(index.columns)) {
+    const columnLine = findLine(lines, new RegExp(`^##\\s+${escapeRegExp(columnName)}\\s*$`))
+    for (const taskId of index.columns[columnName] as string[]) {
+      const entry = new RegExp(`\\]\\(tasks/${escapeRegExp(taskId)}\\.md\\)`)
+      const line = findLine(lines, entry, (entryLines.get(taskId) ?? columnLine) + 1)
+      entryLines.set(taskId, line)
+      if (indexedIds.has(taskId)) {
+        problems.push({
+          code: 'duplicateTask',
+          severity: 'error',
+          file: filePath,
+          line,
+          message: `Task '${taskId}' is in the index more than once.`,
+          fix: `Remove the duplicate entries for '${taskId}'`,
+          taskId
+        })
+        continue
+      }
+      indexedIds.add(taskId)
+      if (!context.taskFileIds.has(taskId)) {
+        problems.push({
+          code: 'missingTaskFile',
+          severity: 'error',
+          file: filePath,
+          line,
+          message: `Task '${taskId}' is in the index, but tasks/${taskId}.md doesn't exist.`,
+          fix: `Remove '${taskId}' from the index`,
+          taskId
+        })
+      }
+    }
+  }
+
+  // Check the index's custom fields
+  const customFields: Array<{ name: string, type: string }> = index.options?.customFields ?? []
+  for (const customField of customFields.filter(c => !customFieldTypes.includes(c.type))) {
+    problems.push({
+      code: 'unknownCustomFieldType',
+      severity: 'error',
+      file: filePath,
+      line: findLine(lines, new RegExp(`name\\s*:\\s*['"]?${escapeRegExp(String(customField.name))}['"]?\\s*$`)),
+      message: `Custom field '${String(customField.name)}' has an unknown type '${String(customField.type)}'. The type should be one of ${customFieldTypes.join(', ')}.`,
+      fix: `Change the type of '${String(customField.name)}' to string`,
+      name: customField.name
+    })
+  }
+  return problems
+}
+
+// Check the contents of a task file: whether it's in the index, and its metadata and relations
+function checkTask (filePath: string, taskId: string, contents: string, context: BoardContext): BoardProblem[] {
+  const problems: BoardProblem[] = []
+  let task: any
+  try {
+    task = parseTask(contents)
+  } catch (e) {
+    if (e instanceof Error) {
+      return [{ code: 'unreadable', severity: 'error', file: filePath, line: 0, message: e.message, fix: null, taskId }]
+    }
+    throw e
+  }
+  const lines = contents.split(/\r?\n/)
+  const index = context.index
+  if (index !== null && !Object.values(index.columns).some(taskIds => (taskIds as string[]).includes(taskId))) {
+    const columnNames = Object.keys(index.columns)
+    problems.push({
+      code: 'orphanTask',
+      severity: 'warning',
+      file: filePath,
+      line: 0,
+      message: `Task '${taskId}' isn't in the index, so it isn't shown on the board.`,
+      fix: columnNames.length > 0 ? `Add '${taskId}' to ${columnNames[0]}` : null,
+      taskId
+    })
+  }
+
+  const metadata = task.metadata ?? {}
+  const customFields: Array<{ name: string, type: string }> = index?.options?.customFields ?? []
+  const metadataLine = (name: string): number => findLine(lines, new RegExp(`^\\s*${escapeRegExp(name)}\\s*:`))
+  const dateFields = [...dateProperties, ...customFields.filter(c => c.type === 'date').map(c => c.name)]
+  for (const name of dateFields.filter(name => metadata[name] != null)) {
+    if (isValidDate(metadata[name])) continue
+    problems.push({
+      code: 'invalidDate',
+      severity: 'error',
+      file: filePath,
+      line: metadataLine(name),
+      message: `'${String(metadata[name])}' isn't a valid date for ${name}.`,
+      fix: `Remove ${name}`,
+      taskId,
+      name
+    })
+  }
+  for (const customField of customFields.filter(c => customFieldValueChecks[c.type] !== undefined)) {
+    const value = metadata[customField.name]
+    if (value == null || customFieldValueChecks[customField.type](value)) continue
+    problems.push({
+      code: 'invalidCustomFieldValue',
+      severity: 'error',
+      file: filePath,
+      line: metadataLine(customField.name),
+      message: `'${String(value)}' isn't a ${customField.type} value for ${customField.name}.`,
+      fix: convertCustomFieldValue(value, customField.type) !== undefined
+        ? `Convert ${customField.name} to a ${customField.type}`
+        : `Remove the invalid value of ${customField.name}`,
+      taskId,
+      name: customField.name
+    })
+  }
+  if (metadata.recurrence != null) {
+    const problem = recurrenceProblem(metadata.recurrence)
+    if (problem !== null) {
+      problems.push({
+        code: 'invalidRecurrence',
+        severity: 'error',
+        file: filePath,
+        line: metadataLine('recurrence'),
+        message: `${problem}.`,
+        fix: recurrenceTypes.includes(metadata.recurrence?.type) ? 'Repair the recurrence' : 'Remove the recurrence',
+        taskId
+      })
+    }
+  }
+  const relationsLine = findLine(lines, /^##\s+Relations\s*$/)
+  for (const relation of task.relations ?? []) {
+    if (context.knownTaskIds.has(relation.task)) continue
+    problems.push({
+      code: 'missingRelation',
+      severity: 'warning',
+      file: filePath,
+      line: findLine(lines, new RegExp(`\\[(?:[^\\]]*\\s)?${escapeRegExp(String(relation.task))}\\]`), relationsLine),
+      message: `Related task '${String(relation.task)}' doesn't exist.`,
+      fix: `Remove the relation to '${String(relation.task)}'`,
+      taskId,
+      name: relation.task
+    })
+  }
+  return problems
+}
+
+// Check a board's index and task files for problems
+export default async function validateBoard (kanbnFolderName: string): Promise<BoardProblem[]> {
+  const paths = kanbnPaths(kanbnFolderName)
+  const context = await loadBoardContext(kanbnFolderName)
+  const problems: BoardProblem[] = []
+  try {
+    problems.push(...checkIndex(paths.index, await fs.promises.readFile(paths.index, 'utf8'), context))
+  } catch (e) {
+    if (e instanceof Error) {
+      problems.push({ code: 'unreadable', severity: 'error', file: paths.index, line: 0, message: e.message, fix: null })
+    } else {
+      throw e
+    }
+  }
+  for (const taskId of [...context.taskFileIds].sort()) {
+    const filePath = path.join(paths.tasks, `${taskId}.md`)
+    problems.push(...checkTask(filePath, taskId, await fs.promises.readFile(filePath, 'utf8'), context))
+  }
+  return problems
+}
+
+// Check the contents of one of a board's files, e.g. while it's being edited. Resolves to null if the file isn't the
+// board's index or one of its task files.
+export async function validateFile (kanbnFolderName: string, filePath: string, contents: string): Promise<BoardProblem[] | null> {
+  const paths = kanbnPaths(kanbnFolderName)
+  const context = await loadBoardContext(kanbnFolderName)
+  if (path.resolve(filePath) === path.resolve(paths.index)) {
+    return checkIndex(filePath, contents, context)
+  }
+  if (path.resolve(path.dirname(filePath)) === path.resolve(paths.tasks) && filePath.endsWith('.md')) {
+    return checkTask(filePath, path.basename(filePath, '.md'), contents, context)
+  }
+  return null
+}
+
+// Repair a problem found by validateBoard
+export async function fixProblem (kanbnFolderName: string, problem: BoardProblem): Promise<void> {
+  const paths = kanbnPaths(kanbnFolderName)
+  const taskId = problem.taskId ?? ''
+  switch (problem.code) {
+    case 'orphanTask':
+    case 'missingTaskFile':
+    case 'duplicateTask':
+    case 'unknownCustomFieldType': {
+      const index = parseIndex(await fs.promises.readFile(paths.index, 'utf8'))
+      if (problem.code === 'orphanTask') {
+        const columnName = Object.keys(index.columns)[0]
+        if (!Object.values(index.columns).some(taskIds => (taskIds as string[]).includes(taskId))) {
+          index.columns[columnName].push(taskId)
+        }
+      } else if (problem.code === 'missingTaskFile') {
+        for (const columnName of Object.keys(index.columns)) {
+          index.columns[columnName] = index.columns[columnName].filter((id: string) => id !== taskId)
+        }
+      } else if (problem.code === 'duplicateTask') {
+        let found = false
+        for (const columnName of Object.keys(index.columns)) {
+          index.columns[columnName] = index.columns[columnName].filter((id: string) => {
+            if (id !== taskId) return true
+            const keep = !found
+            found = true
+            return keep
+          })
+        }
+      } else {
+        for (const customField of index.options.customFields ?? []) {
+          if (customField.name === problem.name) customField.type = 'string'
+        }
+      }
+      await fs.promises.writeFile(paths.index, indexToMarkdown(index))
+      return
+    }
+    case 'missingRelation':
+    case 'invalidDate':
+    case 'invalidCustomFieldValue':
+    case 'invalidRecurrence': {
+      const filePath = path.join(paths.tasks, `${taskId}.md`)
+      const task = parseTask(await fs.promises.readFile(filePath, 'utf8'))
+      if (problem.code === 'missingRelation') {
+        task.relations = (task.relations ?? []).filter((relation: any) => relation.task !== problem.name)
+      } else if (problem.code === 'invalidDate') {
+        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+        delete task.metadata[problem.name ?? '']
+      } else if (problem.code === 'invalidCustomFieldValue') {
+        const index = parseIndex(await fs.promises.readFile(paths.index, 'utf8'))
+        const customField = (index.options.customFields ?? []).find((c: any) => c.name === problem.name)
+        const value = convertCustomFieldValue(task.metadata[problem.name ?? ''], customField?.type)
+        if (value !== undefined) {
+          task.metadata[problem.name ?? ''] = value
+        } else {
+          // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+          delete task.metadata[problem.name ?? '']
+        }
+      } else if (recurrenceTypes.includes(task.metadata.recurrence?.type)) {
+        const { type, interval, dayOfMonth } = task.metadata.recurrence
+        task.metadata.recurrence = { type, interval: Number.isInteger(interval) && interval > 0 ? interval : 1 }
+        if (type === 'monthly' && Number.isInteger(dayOfMonth) && dayOfMonth >= 1 && dayOfMonth <= 31) {
+          task.metadata.recurrence.dayOfMonth = dayOfMonth
+        }
+      } else {
+        delete task.metadata.recurrence
+      }
+      await fs.promises.writeFile(filePath, taskToMarkdown(task))
+      return
+    }
+    default:
+      throw new Error(`There's no fix for this problem: ${problem.message}`)
+  }
+}
@@ -1,15 +1,25 @@
 /* eslint-disable @typescript-eslint/restrict-template-expressions */
 import { DragDropContext, Droppable } from 'react-beautiful-dnd'
-import React, { useState, useCallback, useEffect, useRef } from 'react'
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import TaskItem from './TaskItem'
+import Calendar from './Calendar'
 import { paramCase } from '@basementuniverse/kanbn/src/utility'
 import vscode from './vscode'
 import formatDate from 'dateformat'
+import { parseFilter, checkFilter, FilterSyntaxError } from './filterQuery'
 
 const zip = (a: any[], b: any[]): Array<[any, any]> => a.map((v: any, i: number): [any, any] => [v, b[i]])
 
-// Called when a task item has finished being dragged
-const onDragEnd = (result, columns, setColumns, clearSelection, selectedTaskIds: Set<string>): void => {
+// Called when a task item has finished being dragged. Columns sorted by an applied view are only sorted in the board,
+// so tasks can't be reordered inside them, and tasks dropped into them are added to the end of the column in the index.
+const onDragEnd = (
+  result,
+  columns,
+  setColumns,
+  clearSelection,
+  selectedTaskIds: Set<string>,
+  viewSorting: Record<string, Array<{ field: string, order: 'ascending' | 'descending' }>>
+): void => {
   // No destination means the item was dragged to an invalid location
   if (result.destination === undefined || result.destination === null) {
     return
@@ -18,6 +28,7 @@ const onDragEnd = (result, columns, setColumns, clearSelection, selectedTaskIds:
   // Get the source and destination columns
   const { source, destination } = result
   const draggedTaskId = result.draggableId
+  const viewSorted = (viewSorting[destination.droppableId] ?? []).length > 0
 
   // Multi-drag: if the dragged card is part of a multi-selection, move all selected cards
   if (selectedTaskIds.has(draggedTaskId) && selectedTaskIds.size > 1) {
@@ -42,7 +53,7 @@ const onDragEnd = (result, columns, setColumns, clearSelection, selectedTaskIds:
     const insertIdx = Math.min(destination.index, targetTasks.length)
     targetTasks.splice(insertIdx, 0, ...selectedTasks)
     newColumns[targetColumn] = targetTasks
-    setColumns(newColumns)
+    setColumns(sortColumns(newColumns, viewSorting))
 
     // Persist to backend
     vscode.postMessage({
@@ -64,17 +75,17 @@ const onDragEnd = (result, columns, setColumns, clearSelection, selectedTaskIds:
     const destItems = columns[destination.droppableId];
     [removed] = sourceItems.splice(source.index, 1)
     destItems.splice(destination.index, 0, removed)
-    setColumns({
+    setColumns(sortColumns({
       ...columns,
       [source.droppableId]: sourceItems,
       [destination.droppableId]: destItems
-    })
+    }, viewSorting))
 
   // The task was dragged into the same column
   } else {
     // If the task was dragged to the same position that it currently occupies, don't move it (this will
     // prevent unnecessarily setting the task's updated date)
-    if (source.index === destination.index) {
+    if (source.index === destination.index || viewSorted) {
       return
     }
     const copiedItems = columns[source.droppableId];
@@ -94,140 +105,214 @@ const onDragEnd = (result, columns, setColumns, clearSelection, selectedTaskIds:
     command: 'kanbn.move',
     task: removed.id,
     columnName: destination.droppableId,
-    position: destination.index
+    position: viewSorted ? null : destination.index
   })
 }
 
-// Parse date strings, handling DD/MM/YYYY format that JavaScript misinterprets as MM/DD/YYYY
-const parseDate = (value: any): Date | null => {
-  if (value == null) return null
-  const s = String(value)
-  const slashMatch = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
-  if (slashMatch != null) {
-    const day = parseInt(slashMatch[1], 10)
-    const month = parseInt(slashMatch[2], 10)
-    const year = parseInt(slashMatch[3], 10)
-    return new Date(year, month - 1, day)
+// Priorities in the order that their swimlanes are shown
+const priorities = ['Urgent', 'High', 'Medium', 'Low', 'Lowest']
+
+// Get the swimlane that a task belongs to when grouping by the specified property. Swimlane groupings are 'assigned',
+// 'tag', 'priority' or 'customField:{custom field name}'. Tasks without a value are put in the '' swimlane.
+const getSwimlane = (task: KanbnTask, grouping: string): string => {
+  switch (grouping) {
+    case 'assigned':
+      return task.metadata.assigned ?? ''
+    case 'tag':
+      return (task.metadata.tags ?? [])[0] ?? ''
+    case 'priority':
+      return task.metadata.priority ?? ''
+    default: {
+      const value = task.metadata[grouping.replace(/^customField:/, '')]
+      if (value === undefined || value === null || value === '') return ''
+      return String(value).split('T')[0]
+    }
   }
-  const d = new Date(s)
-  if (isNaN(d.getTime())) return null
-  return d
 }
 
-// Check if a task's due date is in the past
-const checkOverdue = (task: KanbnTask): boolean => {
-  if (task.metadata.due !== undefined) {
-    const d = parseDate(task.metadata.due)
-    return d != null && d.getTime() < (new Date()).getTime()
+// Get the sorted list of swimlanes for all tasks on the board
+const getSwimlanes = (columns: Record<string, KanbnTask[]>, grouping: string): string[] => {
+  const swimlanes = new Set<string>()
+  for (const tasks of Object.values(columns)) {
+    for (const task of tasks) {
+      swimlanes.add(getSwimlane(task, grouping))
+    }
   }
-  return false
+  const rank = (swimlane: string): number => grouping === 'priority' && priorities.includes(swimlane)
+    ? priorities.indexOf(swimlane)
+    : priorities.length
+  return [...swimlanes]
+    .filter(swimlane => swimlane !== '')
+    .sort((a, b) => rank(a) !== rank(b) ? rank(a) - rank(b) : a.localeCompare(b))
+    .concat(swimlanes.has('') ? [''] : [])
 }
 
-// A list of property names that can be filtered
-const filterProperties = [
-  'description',
-  'assigned',
-  'tag',
-  'relation',
-  'subtask',
-  'comment'
-]
+// Get a display name for a swimlane
+const getSwimlaneName = (swimlane: string, grouping: string): string => {
+  if (swimlane !== '') return swimlane
+  switch (grouping) {
+    case 'assigned': return 'Unassigned'
+    case 'tag': return 'No tags'
+    case 'priority': return 'No priority'
+    default: return `No ${grouping.replace(/^customField:/, '')}`
+  }
+}
 
-// Filter tasks according to the filter string
-const filterTask = (
-  task: KanbnTask,
-  taskFilter: string,
-  customFields: Array<{ name: string, type: 'boolean' | 'date' | 'number' | 'string' }>
-): boolean => {
-  let result = true
-  const customFieldMap = Object.fromEntries(customFields.map(customField => [
-    customField.name.toLowerCase(),
-    customField
-  ]))
-  const customFieldNames = Object.keys(customFieldMap)
-  taskFilter.split(' ').forEach(f => {
-    const parts = f.split(':').map(p => p.toLowerCase())
-
-    // This filter section doesn't contain a property name
-    if (parts.length === 1) {
-      // Filter for overdue tasks
-      if (parts[0] === 'overdue') {
-        if (!checkOverdue(task)) {
-          result = false
-        }
-        return
-      }
+// Get the task property updates (in kanbn.quickUpdate format) for moving a task between swimlanes
+const getSwimlaneUpdates = (task: KanbnTask, grouping: string, from: string, to: string): Record<string, any> => {
+  switch (grouping) {
+    case 'assigned':
+      return { assigned: to }
+    case 'tag':
+      return { tags: to === '' ? [] : [to, ...(task.metadata.tags ?? []).filter(tag => tag !== from && tag !== to)] }
+    case 'priority':
+      return { priority: to }
+    default:
+      return { customFields: { [grouping.replace(/^customField:/, '')]: to === '' ? null : to } }
+  }
+}
 
-      // Filter boolean custom fields
-      if (customFieldNames.includes(parts[0]) && customFieldMap[parts[0]].type === 'boolean') {
-        if (
-          !(customFieldMap[parts[0]].name in task.metadata) ||
-          !(task.metadata[customFieldMap[parts[0]].name] === null || task.metadata[customFieldMap[parts[0]].name] === undefined)
-        ) {
-          result = false
-        }
-        return
-      }
+// Called when a task item has finished being dragged while the board is grouped into swimlanes. Droppable ids have
+// the format '{swimlane index}:{column name}'.
+const onSwimlaneDragEnd = (
+  result,
+  columns: Record<string, KanbnTask[]>,
+  setColumns,
+  swimlanes: string[],
+  grouping: string,
+  getSwimlaneTasks: (columnName: string, swimlane: string) => KanbnTask[],
+  viewSorting: Record<string, Array<{ field: string, order: 'ascending' | 'descending' }>>
+): void => {
+  if (result.destination === undefined || result.destination === null) {
+    return
+  }
+  const { source, destination } = result
+  if (source.droppableId === destination.droppableId && source.index === destination.index) {
+    return
+  }
+  const parseDroppableId = (droppableId: string): [string, string] => {
+    const separator = droppableId.indexOf(':')
+    return [swimlanes[Number(droppableId.slice(0, separator))], droppableId.slice(separator + 1)]
+  }
+  const [sourceSwimlane, sourceColumn] = parseDroppableId(source.droppableId)
+  const [destinationSwimlane, destinationColumn] = parseDroppableId(destination.droppableId)
+  const task = columns[sourceColumn].find(t => t.id === result.draggableId)
+  if (task === undefined) return
 
-      // Filter task id or name
-      if (
-        !task.id.toLowerCase().includes(parts[0]) &&
-        !task.name.toLowerCase().includes(parts[0])
-      ) {
-        result = false
-      }
-      return
+  // Tasks can't be reordered inside a column sorted by an applied view (see onDragEnd)
+  const viewSorted = (viewSorting[destinationColumn] ?? []).length > 0
+  if (viewSorted && sourceColumn === destinationColumn && sourceSwimlane === destinationSwimlane) {
+    return
+  }
+
+  // Work out the position in the whole column from the position within the swimlane
+  const destinationTasks = columns[destinationColumn].filter(t => t.id !== task.id)
+  const swimlaneTasks = getSwimlaneTasks(destinationColumn, destinationSwimlane).filter(t => t.id !== task.id)
+  const position = destination.index < swimlaneTasks.length
+    ? destinationTasks.indexOf(swimlaneTasks[destination.index])
+    : swimlaneTasks.length > 0
+      ? destinationTasks.indexOf(swimlaneTasks[swimlaneTasks.length - 1]) + 1
+      : destinationTasks.length
+
+  // Update local state so the card stays where it was dropped until the board is refreshed
+  const updates = sourceSwimlane !== destinationSwimlane
+    ? getSwimlaneUpdates(task, grouping, sourceSwimlane, destinationSwimlane)
+    : null
+  const movedTask = { ...task, metadata: { ...task.metadata } }
+  if (updates !== null) {
+    if ('tags' in updates) {
+      movedTask.metadata.tags = updates.tags
+    } else if ('customFields' in updates) {
+      Object.assign(movedTask.metadata, updates.customFields)
+    } else {
+      Object.assign(movedTask.metadata, updates)
     }
+  }
+  destinationTasks.splice(position, 0, movedTask)
+  setColumns(sortColumns({
+    ...columns,
+    [sourceColumn]: columns[sourceColumn].filter(t => t.id !== task.id),
+    [destinationColumn]: destinationTasks
+  }, viewSorting))
 
-    // If this filter section contains a property name and value, check the value against the property
-    if (
-      parts.length === 2 && (
-        filterProperties.includes(parts[0]) ||
-        customFieldNames.includes(parts[0])
-      )
-    ) {
-      // Fetch the value to filter by
-      let propertyValue = ''
-      switch (parts[0]) {
-        case 'description':
-          propertyValue = [
-            task.description,
-            ...task.subTasks.map(subTask => subTask.text)
-          ].join(' ')
-          break
-        case 'assigned':
-          propertyValue = task.metadata.assigned ?? ''
-          break
-        case 'tag':
-          propertyValue = (task.metadata.tags ?? []).join(' ')
-          break
-        case 'relation':
-          propertyValue = task.relations.map(relation => `${relation.type} ${relation.task}`).join(' ')
-          break
-        case 'subtask':
-          propertyValue = task.subTasks.map(subTask => `${subTask.text}`).join(' ')
-          break
-        case 'comment':
-          propertyValue = task.comments.map(comment => `${comment.author} ${comment.text}`).join(' ')
-          break
-        default:
-          if (
-            customFieldNames.includes(parts[0]) &&
-            customFieldMap[parts[0]].type !== 'boolean' &&
-            customFieldMap[parts[0]].name in task.metadata
-          ) {
-            propertyValue = `${task.metadata[customFieldMap[parts[0]].name]}`
-          }
-          break
-      }
+  // Post a message back to the extension to update the task
+  if (updates === null) {
+    vscode.postMessage({
+      command: 'kanbn.move',
+      task: task.id,
+      columnName: destinationColumn,
+      position: viewSorted ? null : position
+    })
+  } else {
+    vscode.postMessage({
+      command: 'kanbn.quickUpdate',
+      taskId: task.id,
+      updates: { ...updates, column: destinationColumn }
+    })
+  }
+}
 
-      // Check the search term against the value
-      if (!propertyValue.toLowerCase().includes(parts[1])) {
-        result = false
-      }
+// Get the value of a task property for sorting, with the same fields as Kanbn's column sorting
+const getSortValue = (task: KanbnTask, field: string): string | number => {
+  switch (field) {
+    case 'name':
+      return task.name
+    case 'countSubTasks':
+      return task.subTasks.length
+    case 'countTags':
+      return (task.metadata.tags ?? []).length
+    case 'countRelations':
+      return task.relations.length
+    case 'countComments':
+      return task.comments.length
+    case 'workload':
+      return task.workload ?? 0
+    case 'progress':
+      return task.progress ?? 0
+    default: {
+      const value = task.metadata[field]
+      if (value === undefined || value === null) return ''
+      return typeof value === 'number' ? value : String(value)
     }
-  })
-  return result
+  }
+}
+
+// Sort the tasks in each column that a view has sorting settings for. Views are sorted in the board rather than in the
+// index, so applying a view doesn't change the task order for anyone else using the board.
+const sortColumns = (
+  columns: Record<string, KanbnTask[]>,
+  viewSorting: Record<string, Array<{ field: string, order: 'ascending' | 'descending' }>>
+): Record<string, KanbnTask[]> => Object.fromEntries(Object.entries(columns).map(([columnName, tasks]) => {
+  const sorters = viewSorting[columnName] ?? []
+  if (sorters.length === 0) return [columnName, tasks]
+  return [columnName, [...tasks].sort((a, b) => {
+    for (const sorter of sorters) {
+      const valueA = getSortValue(a, sorter.field)
+      const valueB = getSortValue(b, sorter.field)
+      if (valueA === valueB) continue
+      const compare = typeof valueA === 'number' && typeof valueB === 'number'
+        ? valueA - valueB
+        : String(valueA).localeCompare(String(valueB))
+      return sorter.order === 'descending' ? -compare : compare
+    }
+    return 0
+  })]
+}))
+
+// Parse the filter string into a predicate for filtering tasks. While the filter string has a syntax error, all tasks
+// are shown.
+const parseTaskFilter = (
+  taskFilter: string,
+  customFields: Array<{ name: string, type: 'boolean' | 'date' | 'number' | 'string' }>
+): (task: KanbnTask) => boolean => {
+  try {
+    return parseFilter(taskFilter, customFields)
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) {
+      return () => true
+    }
+    throw error
+  }
 }
 
 // Help popover content
@@ -271,6 +356,38 @@ const helpContent: HelpSection[] = [
         label: 'comment:term',
         desc: 'Search comment author or text'
       },
+      {
+        label: 'column:name',
+        desc: 'Filter by column'
+      },
+      {
+        label: 'priority:level',
+        desc: 'Filter by priority'
+      },
+      {
+        label: 'sprint:name',
+        desc: 'Filter by sprint'
+      },
+      {
+        label: 'due<2026-11-01',
+        desc: 'Compare dates (created, started, completed, due) with < <= > >= = !='
+      },
+      {
+        label: 'due:this-week',
+        desc: 'Relative dates: today, tomorrow, {this|last|next}-{week|month|year}, +7d, -2w'
+      },
+      {
+        label: 'progress>=50',
+        desc: 'Compare numbers (progress %, workload, number custom fields)'
+      },
+      {
+        label: '"quoted phrase"',
+        desc: 'Match a phrase containing spaces'
+      },
+      {
+        label: 'a OR b, NOT a, -a, (a b)',
+        desc: 'Combine terms (terms are ANDed by default)'
+      },
       {
         label: 'overdue',
         desc: 'Show only overdue tasks'
@@ -305,6 +422,14 @@ const helpContent: HelpSection[] = [
         label: 'Escape',
         desc: 'Close popover / clear selection / clear filter'
       },
+      {
+        label: 'Ctrl+Z',
+        desc: 'Undo the last board change'
+      },
+      {
+        label: 'Ctrl+Shift+Z / Ctrl+Y',
+        desc: 'Redo the last undone change'
+      },
       {
         label: 'Click tag',
         desc: 'Filter by that tag'
@@ -320,7 +445,15 @@ const helpContent: HelpSection[] = [
       },
       {
         label: 'Kanbn: Add task',
-        desc: 'Create a new task'
+        desc: 'Create a new task, optionally from a template'
+      },
+      {
+        label: 'Kanbn: Create tasks from selection',
+        desc: 'Create a task for each selected line'
+      },
+      {
+        label: 'Kanbn: Sync TODO comments',
+        desc: 'Create tasks for TODO comments in the workspace'
       },
       {
         label: 'Kanbn: Open task',
@@ -334,10 +467,30 @@ const helpContent: HelpSection[] = [
         label: 'Kanbn: Restore tasks',
         desc: 'Restore archived tasks'
       },
+      {
+        label: 'Kanbn: Undo board change',
+        desc: 'Undo the last board change'
+      },
+      {
+        label: 'Kanbn: Apply board view',
+        desc: 'Apply a saved filter and layout'
+      },
       {
         label: 'Kanbn: Open burndown',
         desc: 'View burndown chart'
       },
+      {
+        label: 'Kanbn: Open timeline',
+        desc: 'View task schedules and dependencies'
+      },
+      {
+        label: 'Kanbn: Open sprints',
+        desc: 'Plan, track and close sprints'
+      },
+      {
+        label: 'Kanbn: Open flow metrics',
+        desc: 'View lead time, cycle time and throughput'
+      },
       {
         label: 'Kanbn: Create board',
         desc: 'Create a new board'
@@ -363,6 +516,14 @@ const helpContent: HelpSection[] = [
         label: 'showTaskNotifications',
         desc: 'Notify on task create/update/delete'
       },
+      {
+        label: 'wipLimitEnforcement',
+        desc: 'Warn about or block moves over a WIP limit'
+      },
+      {
+        label: 'syncTodosOnSave',
+        desc: 'Sync TODO comments when a file is saved'
+      },
       {
         label: 'showUninitialisedStatusBarItem',
         desc: 'Show status bar when uninitialised'
@@ -380,6 +541,11 @@ function Board (): JSX.Element {
     startedColumns: [],
     completedColumns: [],
     columnSorting: {},
+    viewSorting: {},
+    wipLimits: {},
+    swimlanes: null,
+    views: [],
+    templates: [],
     customFields: [],
     dateFormat: '',
     showBurndownButton: false,
@@ -392,7 +558,7 @@ function Board (): JSX.Element {
   // 75.26: Single-column focused view
   const [focusedColumn, setFocusedColumn] = useState<string | null>(null)
   // 75.27: List view mode
-  const [viewMode, setViewMode] = useState<'cards' | 'list'>('cards')
+  const [viewMode, setViewMode] = useState<'cards' | 'list' | 'calendar'>('cards')
 
   // 75.23: Context menu state
   const [contextMenu, setContextMenu] = useState<{
@@ -412,6 +578,12 @@ function Board (): JSX.Element {
   const [showMoveMenu, setShowMoveMenu] = useState(false)
   const [showArchiveConfirm, setShowArchiveConfirm] = useState(false)
   const [showFilterDropdown, setShowFilterDropdown] = useState(false)
+  const [filterError, setFilterError] = useState<FilterSyntaxError | null>(null)
+  // The filter is only parsed again when the filter string or the custom fields change
+  const filterTask = useMemo(
+    () => parseTaskFilter(state.taskFilter, state.customFields),
+    [state.taskFilter, state.customFields]
+  )
   const helpRef = useRef<HTMLDivElement>(null)
   const moveMenuRef = useRef<HTMLDivElement>(null)
   const filterInputRef = useRef<HTMLInputElement>(null)
@@ -425,6 +597,13 @@ function Board (): JSX.Element {
     { prefix: 'relation:', desc: 'Filter by relation type or task' },
     { prefix: 'subtask:', desc: 'Search subtask text' },
     { prefix: 'comment:', desc: 'Search comment author or text' },
+    { prefix: 'column:', desc: 'Filter by column' },
+    { prefix: 'priority:', desc: 'Filter by priority' },
+    { prefix: 'sprint:', desc: 'Filter by sprint' },
+    { prefix: 'due:', desc: 'Filter by due date, e.g. due:this-week or due<2026-11-01' },
+    { prefix: 'created:', desc: 'Filter by created date, e.g. created>=-7d' },
+    { prefix: 'progress>=', desc: 'Filter by progress percentage' },
+    { prefix: 'workload>', desc: 'Filter by workload' },
     { prefix: 'overdue', desc: 'Show only overdue tasks' }
   ]
 
@@ -505,7 +684,7 @@ function Board (): JSX.Element {
     return () => { document.removeEventListener('click', handler) }
   }, [contextMenu])
 
-  // Keyboard shortcuts: Escape (close/clear), / (focus filter)
+  // Keyboard shortcuts: Escape (close/clear), / (focus filter), Ctrl+Z / Ctrl+Shift+Z (undo/redo)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent): void => {
       if (e.key === 'Escape') {
@@ -526,6 +705,7 @@ function Board (): JSX.Element {
         } else if (state.taskFilter !== '') {
           // 75.13: Escape clears filter
           if (filterInputRef.current != null) { filterInputRef.current.value = '' }
+          setFilterError(null)
           setTaskFilter('')
         }
       }
@@ -534,6 +714,14 @@ function Board (): JSX.Element {
         e.preventDefault()
         if (filterInputRef.current != null) { filterInputRef.current.focus() }
       }
+      // Undo/redo board changes (leave text inputs to handle their own undo)
+      if ((e.ctrlKey || e.metaKey) && !['INPUT', 'TEXTAREA', 'SELECT'].includes((e.target as HTMLElement)?.tagName)) {
+        const key = e.key.toLowerCase()
+        if (key === 'z' || key === 'y') {
+          e.preventDefault()
+          vscode.postMessage({ command: key === 'z' && !e.shiftKey ? 'kanbn.undo' : 'kanbn.redo' })
+        }
+      }
     }
     document.addEventListener('keydown', handleKeyDown)
     return () => { document.removeEventListener('keydown', handleKeyDown) }
@@ -547,7 +735,7 @@ function Board (): JSX.Element {
       if (e.shiftKey && lastClicked != null && lastClicked.columnName === columnName) {
         // Shift+click: select range within same column
         const tasks = (state.columns[columnName] as KanbnTask[] ?? [])
-          .filter(task => filterTask(task, state.taskFilter, state.customFields))
+          .filter(task => filterTask(task))
         const startIdx = Math.min(lastClicked.position, position)
         const endIdx = Math.max(lastClicked.position, position)
         for (let i = startIdx; i <= endIdx; i++) {
@@ -574,7 +762,7 @@ function Board (): JSX.Element {
       return next
     })
     setLastClicked({ taskId, columnName, position })
-  }, [lastClicked, state.columns, state.taskFilter, state.customFields])
+  }, [lastClicked, state.columns, filterTask])
 
   const handleBulkMove = useCallback((targetColumn: string) => {
     const taskIds = [...selectedTaskIds]
@@ -593,13 +781,14 @@ function Board (): JSX.Element {
     if (filterInputRef.current != null) {
       filterInputRef.current.value = filterValue
     }
+    setFilterError(null)
     setTaskFilter(filterValue)
   }, [])
 
   // Handle select all visible tasks in a column
   const handleSelectAllInColumn = useCallback((columnName: string) => {
     const tasks = (state.columns[columnName] as KanbnTask[] ?? [])
-      .filter(task => filterTask(task, state.taskFilter, state.customFields))
+      .filter(task => filterTask(task))
     setSelectedTaskIds(prev => {
       const next = new Set(prev)
       const allSelected = tasks.every(t => next.has(t.id))
@@ -612,7 +801,7 @@ function Board (): JSX.Element {
       }
       return next
     })
-  }, [state.columns, state.taskFilter, state.customFields])
+  }, [state.columns, filterTask])
 
   const handleBulkArchive = useCallback(() => {
     const taskIds = [...selectedTaskIds]
@@ -624,6 +813,27 @@ function Board (): JSX.Element {
   }, [selectedTaskIds, clearSelection])
 
   const processMessage = useCallback(event => {
+    // Apply a saved view's filter and layout
+    if (event.data.type === 'applyView') {
+      const view = event.data.view
+      if (filterInputRef.current != null) { filterInputRef.current.value = view.filter ?? '' }
+      setFilterError(null)
+      setViewMode(['list', 'calendar'].includes(view.viewMode) ? view.viewMode : 'cards')
+      setFocusedColumn(view.focusedColumn ?? null)
+      setState(prevState => {
+        const viewSorting = view.columnSorting ?? {}
+        const newState = {
+          ...prevState,
+          taskFilter: view.filter ?? '',
+          viewSorting,
+          columns: sortColumns(prevState.columns, viewSorting)
+        }
+        vscode.setState(newState)
+        return newState
+      })
+      return
+    }
+
     const newState: any = {}
     const tasks = Object.fromEntries((event.data.tasks ?? []).map(task => [task.id, task]))
 
@@ -640,21 +850,35 @@ function Board (): JSX.Element {
     newState.startedColumns = event.data.startedColumns
     newState.completedColumns = event.data.completedColumns
     newState.columnSorting = event.data.columnSorting
+    newState.wipLimits = event.data.wipLimits ?? {}
+    newState.swimlanes = event.data.swimlanes ?? null
+    newState.views = event.data.views ?? []
+    newState.templates = event.data.templates ?? []
     newState.customFields = event.data.customFields
     newState.showBurndownButton = event.data.showBurndownButton
     newState.showSprintButton = event.data.showSprintButton
     newState.kanbnFolder = event.data.kanbnFolder ?? ''
 
-    // Get current sprint
+    // Get current sprint (the latest sprint that hasn't been closed)
     let sprint = null
     if ('sprints' in event.data.index.options && event.data.index.options.sprints.length > 0) {
-      sprint = event.data.index.options.sprints[event.data.index.options.sprints.length - 1]
+      const openSprints = event.data.index.options.sprints.filter(s => s.closed == null)
+      sprint = openSprints.length > 0 ? openSprints[openSprints.length - 1] : null
     }
     newState.currentSprint = sprint
     newState.dateFormat = event.data.dateFormat
-    newState.taskFilter = state.taskFilter
-    vscode.setState(newState)
-    setState(newState)
+    setState(prevState => {
+      // Keep the current filter and the applied view's sorting when the board is updated
+      const viewSorting = prevState.viewSorting ?? {}
+      const updatedState = {
+        ...newState,
+        taskFilter: prevState.taskFilter,
+        viewSorting,
+        columns: sortColumns(newState.columns, viewSorting)
+      }
+      vscode.setState(updatedState)
+      return updatedState
+    })
   }, [])
 
   useEffect(() => {
@@ -678,9 +902,15 @@ function Board (): JSX.Element {
   // Called when the clear filter button is clicked
   const clearFilters = (e: React.UIEvent<HTMLElement>): void => {
     if (filterInputRef.current != null) { filterInputRef.current.value = '' }
+    setFilterError(null)
     filterTasks(e)
   }
 
+  // Check the filter input for syntax errors as it is edited
+  const validateFilterInput = (): void => {
+    setFilterError(checkFilter(filterInputRef.current?.value ?? '', state.customFields))
+  }
+
   // Called when the filter form is submitted
   const filterTasks = (e: React.UIEvent<HTMLElement>): void => {
     e.preventDefault()
@@ -711,9 +941,130 @@ function Board (): JSX.Element {
       >
         <i className="codicon codicon-list-flat"></i>
       </button>
+      <button
+        type="button"
+        className={`kanbn-view-mode-button${viewMode === 'calendar' ? ' kanbn-view-mode-active' : ''}`}
+        onClick={() => { setViewMode('calendar') }}
+        title="Calendar view"
+      >
+        <i className="codicon codicon-calendar"></i>
+      </button>
     </div>
   )
 
+  // Render a column's name, task count and column buttons
+  const renderColumnHeader = (columnName: string, column: any[]): JSX.Element => {
+    const wipLimit: number | undefined = state.wipLimits?.[columnName]
+    return (
+      <h2 className="kanbn-column-name">
+        {
+          state.startedColumns.includes(columnName) as boolean &&
+          <i className="codicon codicon-play"></i>
+        }
+        {
+          state.completedColumns.includes(columnName) as boolean &&
+          <i className="codicon codicon-check"></i>
+        }
+        {/* 75.26: Clickable column name to enter single-column focus */}
+        <button
+          type="button"
+          className="kanbn-column-name-button"
+          title="Click to focus on this column"
+          onClick={() => { setFocusedColumn(columnName) }}
+        >
+          {columnName}
+        </button>
+        <span
+          className="kanbn-column-count"
+          title={wipLimit !== undefined ? `WIP limit: ${wipLimit}` : undefined}
+        >
+          {(column as any).length}{wipLimit !== undefined && `/${wipLimit}`}
+        </span>
+        <button
+          type="button"
+          className={[
+            'kanbn-column-button',
+            'kanbn-wip-limit-button',
+            wipLimit !== undefined ? 'kanbn-column-limited' : null
+          ].filter(i => i).join(' ')}
+          title={`Set WIP limit for ${columnName}`}
+          onClick={() => {
+            vscode.postMessage({
+              command: 'kanbn.setWipLimit',
+              columnName
+            })
+          }}
+        >
+          <i className="codicon codicon-dashboard"></i>
+        </button>
+        <button
+          type="button"
+          className="kanbn-column-button kanbn-select-all-button"
+          title={`Select all in ${columnName}`}
+          onClick={(e) => { e.stopPropagation(); handleSelectAllInColumn(columnName) }}
+        >
+          <i className="codicon codicon-check-all"></i>
+        </button>
+        <button
+          type="button"
+          className="kanbn-column-button kanbn-create-task-button"
+          title={`Create task in ${columnName}`}
+          onClick={() => {
+            vscode.postMessage({
+              command: 'kanbn.addTask',
+              columnName
+            })
+          }}
+        >
+          <i className="codicon codicon-add"></i>
+        </button>
+        {(state.templates ?? []).length > 0 && <button
+          type="button"
+          className="kanbn-column-button kanbn-create-task-from-template-button"
+          title={`Create task in ${columnName} from a template`}
+          onClick={() => {
+            vscode.postMessage({
+              command: 'kanbn.addTaskFromTemplate',
+              columnName
+            })
+          }}
+        >
+          <i className="codicon codicon-file-add"></i>
+        </button>}
+        {((columnIsSorted, columnSortSettings) => (
+          <button
+            type="button"
+            className={[
+              'kanbn-column-button',
+              'kanbn-sort-column-button',
+              columnIsSorted ? 'kanbn-column-sorted' : null
+            ].filter(i => i).join(' ')}
+            title={`Sort ${columnName}${columnIsSorted
+              ? `\nCurrently sorted by:\n${columnSortSettings.map(
+                sorter => `${sorter.field} (${sorter.order})`
+              ).join('\n')}`
+              : ''
+            }`}
+            onClick={() => {
+              // Sorting the column replaces the applied view's sorting for it
+              const { [columnName]: _, ...viewSorting } = state.viewSorting ?? {}
+              setState({ ...state, viewSorting })
+              vscode.postMessage({
+                command: 'kanbn.sortColumn',
+                columnName
+              })
+            }}
+          >
+            <i className="codicon codicon-list-filter"></i>
+          </button>
+        ))(
+          columnName in { ...state.columnSorting, ...state.viewSorting },
+          { ...state.columnSorting, ...state.viewSorting }[columnName] ?? []
+        )}
+      </h2>
+    )
+  }
+
   // Indicate that the board is ready to receive messages and should be updated
   useEffect(() => vscode.postMessage({ command: 'kanbn.updateMe' }), [])
 
@@ -722,6 +1073,186 @@ function Board (): JSX.Element {
     ? Object.entries(state.columns).filter(([name]) => name === focusedColumn)
     : Object.entries(state.columns).filter(([name]) => !((state.hiddenColumns ?? []).includes(name) as boolean))
 
+  // Swimlanes are only shown in card view
+  const swimlaneMode = state.swimlanes != null && viewMode === 'cards'
+
+  // Change the swimlane grouping and save it in the board options
+  const setSwimlanes = (swimlanes: string | null): void => {
+    const newState = { ...state, swimlanes }
+    vscode.setState(newState)
+    setState(newState)
+    vscode.postMessage({
+      command: 'kanbn.setSwimlanes',
+      swimlanes
+    })
+  }
+
+  // Swimlane grouping selector (shown in the header)
+  const swimlaneSelect = (
+    <select
+      className="kanbn-swimlane-select"
+      title="Group tasks into swimlanes"
+      value={state.swimlanes ?? ''}
+      onChange={(e) => { setSwimlanes(e.target.value !== '' ? e.target.value : null) }}
+    >
+      <option value="">No swimlanes</option>
+      <option value="assigned">Swimlanes by assignee</option>
+      <option value="tag">Swimlanes by tag</option>
+      <option value="priority">Swimlanes by priority</option>
+      {(state.customFields ?? []).map(customField => (
+        <option key={customField.name} value={`customField:${customField.name}`}>
+          Swimlanes by {customField.name}
+        </option>
+      ))}
+    </select>
+  )
+
+  // The saved view matching the current filter and layout, if there is one
+  const activeView = (state.views ?? []).find(view =>
+    (view.filter ?? '') === state.taskFilter &&
+    (view.viewMode ?? 'cards') === viewMode &&
+    (view.focusedColumn ?? null) === focusedColumn
+  )
+
+  // Saved view selector (shown in the header). Views are stored in the board options so they can be shared.
+  const viewSelect = (
+    <select
+      className="kanbn-view-select"
+      title="Saved board views"
+      value={activeView !== undefined ? `view:${activeView.name}` : ''}
+      onChange={(e) => {
+        const value = e.target.value
+        if (value === 'save') {
+          vscode.postMessage({
+            command: 'kanbn.saveView',
+            name: activeView?.name ?? '',
+            filter: state.taskFilter,
+            viewMode,
+            focusedColumn,
+            columnSorting: { ...state.columnSorting, ...state.viewSorting }
+          })
+        } else if (value === 'clear') {
+          // Go back to the unfiltered board in the index's task order
+          if (filterInputRef.current != null) { filterInputRef.current.value = '' }
+          setFilterError(null)
+          setViewMode('cards')
+          setFocusedColumn(null)
+          const newState = { ...state, taskFilter: '', viewSorting: {} }
+          vscode.setState(newState)
+          setState(newState)
+          vscode.postMessage({ command: 'kanbn.updateMe' })
+        } else if (value === 'delete') {
+          vscode.postMessage({ command: 'kanbn.deleteView' })
+        } else if (value.startsWith('view:')) {
+          vscode.postMessage({
+            command: 'kanbn.applyView',
+            name: value.slice('view:'.length)
+          })
+        }
+      }}
+    >
+      <option value="" disabled={activeView !== undefined}>
+        {(state.views ?? []).length > 0 ? 'No saved view' : 'No saved views'}
+      </option>
+      {(state.views ?? []).map(view => (
+        <option key={view.name} value={`view:${view.name}`}>{view.name}</option>
+      ))}
+      {(activeView !== undefined || Object.keys(state.viewSorting ?? {}).length > 0) && <option value="clear">Clear view</option>}
+      <option value="save">Save current view...</option>
+      {(state.views ?? []).length > 0 && <option value="delete">Delete a view...</option>}
+    </select>
+  )
+
+  // Render the board with each column split into horizontal swimlanes
+  const renderSwimlaneBoard = (): JSX.Element => {
+    const grouping: string = state.swimlanes
+    const swimlanes = getSwimlanes(state.columns, grouping)
+    const getSwimlaneTasks = (columnName: string, swimlane: string): KanbnTask[] => (state.columns[columnName] as KanbnTask[] ?? [])
+      .filter(task => filterTask(task) && getSwimlane(task, grouping) === swimlane)
+    return (
+      <div className="kanbn-board kanbn-board-swimlanes">
+        <DragDropContext
+          onBeforeDragStart={() => { isDraggingRef.current = true }}
+          onDragEnd={result => {
+            isDraggingRef.current = false
+            clearSelection()
+            onSwimlaneDragEnd(result, state.columns, setColumns, swimlanes, grouping, getSwimlaneTasks, state.viewSorting ?? {})
+          }}
+        >
+          <div className="kanbn-swimlane-column-names">
+            {visibleColumns.map(([columnName, column]) => (
+              <div
+                className={[
+                  'kanbn-column',
+                  `kanbn-column-${paramCase(columnName)}`,
+                  state.wipLimits?.[columnName] !== undefined && (column as any[]).length > state.wipLimits[columnName]
+                    ? 'kanbn-column-over-limit'
+                    : null
+                ].filter(i => i).join(' ')}
+                key={columnName}
+              >
+                {renderColumnHeader(columnName, column as any[])}
+              </div>
+            ))}
+          </div>
+          {swimlanes.map((swimlane, swimlaneIndex) => (
+            <div className="kanbn-swimlane" key={swimlane}>
+              <h3 className="kanbn-swimlane-name">
+                {getSwimlaneName(swimlane, grouping)}
+                <span className="kanbn-swimlane-count">
+                  {visibleColumns.reduce((count, [columnName]) => count + getSwimlaneTasks(columnName, swimlane).length, 0)}
+                </span>
+              </h3>
+              <div className="kanbn-swimlane-columns">
+                {visibleColumns.map(([columnName]) => (
+                  <div
+                    className={[
+                      'kanbn-column',
+                      `kanbn-column-${paramCase(columnName)}`
+                    ].join(' ')}
+                    key={columnName}
+                  >
+                    <Droppable droppableId={`${swimlaneIndex}:${columnName}`}>
+                      {(provided, snapshot) => {
+                        const isDraggingOver: boolean = snapshot.isDraggingOver
+                        return (
+                          <div
+                            {...provided.droppableProps}
+                            ref={provided.innerRef}
+                            className={[
+                              'kanbn-column-task-list',
+                              isDraggingOver ? 'drag-over' : null
+                            ].filter(i => i).join(' ')}
+                          >
+                            {getSwimlaneTasks(columnName, swimlane).map((task, position) => <TaskItem
+                              key={task.id}
+                              task={task}
+                              columnName={columnName}
+                              customFields={state.customFields}
+                              position={position}
+                              dateFormat={state.dateFormat}
+                              isSelected={selectedTaskIds.has(task.id)}
+                              selectedCount={selectedTaskIds.size}
+                              onSelect={handleTaskSelect}
+                              onTagClick={handleTagClick}
+                              onContextMenu={handleContextMenu}
+                              isCompletedColumn={state.completedColumns.includes(columnName)}
+                            />)}
+                            {provided.placeholder}
+                          </div>
+                        )
+                      }}
+                    </Droppable>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </DragDropContext>
+      </div>
+    )
+  }
+
   return (
     <>
       <div className="kanbn-header">
@@ -731,14 +1262,25 @@ function Board (): JSX.Element {
             <form>
               <div className="kanbn-filter-input-wrapper">
                 <input
-                  className="kanbn-filter-input"
+                  className={`kanbn-filter-input${filterError !== null ? ' kanbn-filter-input-invalid' : ''}`}
                   placeholder="Filter tasks"
                   ref={filterInputRef}
+                  aria-invalid={filterError !== null}
+                  title={filterError?.message}
                   onFocus={() => { setShowFilterDropdown(true) }}
                   onBlur={() => { setTimeout(() => { setShowFilterDropdown(false) }, 150) }}
-                  onInput={() => { setShowFilterDropdown(true) }}
+                  onInput={() => {
+                    setShowFilterDropdown(true)
+                    validateFilterInput()
+                  }}
                 />
-                {showFilterDropdown && (
+                {filterError !== null && (
+                  <div className="kanbn-filter-error">
+                    <i className="codicon codicon-error"></i>
+                    {filterError.message} (at character {filterError.position + 1})
+                  </div>
+                )}
+                {showFilterDropdown && filterError === null && (
                   <div className="kanbn-filter-dropdown">
                     {filterOptions
                       .filter(opt => {
@@ -757,6 +1299,7 @@ function Board (): JSX.Element {
                               filterInputRef.current.focus()
                               filterInputRef.current.setSelectionRange(opt.prefix.length, opt.prefix.length)
                             }
+                            validateFilterInput()
                             if (!opt.prefix.endsWith(':')) {
                               // 'overdue' is a complete filter — apply immediately
                               setTaskFilter(opt.prefix)
@@ -888,6 +1431,8 @@ function Board (): JSX.Element {
                   <i className="codicon codicon-graph"></i>
                 </button>
               }
+              {viewSelect}
+              {swimlaneSelect}
               {/* 75.27: View mode toggle in main header */}
               {viewModeToggle}
             </form>
@@ -978,89 +1523,35 @@ function Board (): JSX.Element {
           </div>
         </div>
       }
-      <div className={`kanbn-board${focusedColumn !== null ? ' kanbn-board-focused' : ''}`}>
+      {swimlaneMode && renderSwimlaneBoard()}
+      {viewMode === 'calendar' && <Calendar
+        tasks={visibleColumns.flatMap(([, column]) => (column as KanbnTask[]).filter(task => filterTask(task)))}
+        completedColumns={state.completedColumns}
+        dateFormat={state.dateFormat}
+        onContextMenu={handleContextMenu}
+      />}
+      {!swimlaneMode && viewMode !== 'calendar' && <div className={`kanbn-board${focusedColumn !== null ? ' kanbn-board-focused' : ''}`}>
         <DragDropContext
           onBeforeDragStart={() => { isDraggingRef.current = true }}
           onDragEnd={result => {
             isDraggingRef.current = false
-            onDragEnd(result, state.columns, setColumns, clearSelection, selectedTaskIdsRef.current)
+            onDragEnd(result, state.columns, setColumns, clearSelection, selectedTaskIdsRef.current, state.viewSorting ?? {})
           }}
         >
           {visibleColumns.map(([columnName, column]) => {
-            const filteredTasks = (column as any[]).filter(task => filterTask(task, taskFilter, state.customFields))
+            const filteredTasks = (column as any[]).filter(task => filterTask(task))
+            const wipLimit: number | undefined = state.wipLimits?.[columnName]
+            const overWipLimit = wipLimit !== undefined && (column as any[]).length > wipLimit
             return (
               <div
                 className={[
                   'kanbn-column',
-                  `kanbn-column-${paramCase(columnName)}`
-                ].join(' ')}
+                  `kanbn-column-${paramCase(columnName)}`,
+                  overWipLimit ? 'kanbn-column-over-limit' : null
+                ].filter(i => i).join(' ')}
                 key={columnName}
               >
-                <h2 className="kanbn-column-name">
-                  {
-                    state.startedColumns.includes(columnName) as boolean &&
-                    <i className="codicon codicon-play"></i>
-                  }
-                  {
-                    state.completedColumns.includes(columnName) as boolean &&
-                    <i className="codicon codicon-check"></i>
-                  }
-                  {/* 75.26: Clickable column name to enter single-column focus */}
-                  <button
-                    type="button"
-                    className="kanbn-column-name-button"
-                    title="Click to focus on this column"
-                    onClick={() => { setFocusedColumn(columnName) }}
-                  >
-                    {columnName}
-                  </button>
-                  <span className="kanbn-column-count">{(column as any).length}</span>
-                  <button
-                    type="button"
-                    className="kanbn-column-button kanbn-select-all-button"
-                    title={`Select all in ${columnName}`}
-                    onClick={(e) => { e.stopPropagation(); handleSelectAllInColumn(columnName) }}
-                  >
-                    <i className="codicon codicon-check-all"></i>
-                  </button>
-                  <button
-                    type="button"
-                    className="kanbn-column-button kanbn-create-task-button"
-                    title={`Create task in ${columnName}`}
-                    onClick={() => {
-                      vscode.postMessage({
-                        command: 'kanbn.addTask',
-                        columnName
-                      })
-                    }}
-                  >
-                    <i className="codicon codicon-add"></i>
-                  </button>
-                  {((columnIsSorted, columnSortSettings) => (
-                    <button
-                      type="button"
-                      className={[
-                        'kanbn-column-button',
-                        'kanbn-sort-column-button',
-                        columnIsSorted ? 'kanbn-column-sorted' : null
-                      ].filter(i => i).join(' ')}
-                      title={`Sort ${columnName}${columnIsSorted
-                        ? `\nCurrently sorted by:\n${columnSortSettings.map(
-                          sorter => `${sorter.field} (${sorter.order})`
-                        ).join('\n')}`
-                        : ''
-                      }`}
-                      onClick={() => {
-                        vscode.postMessage({
-                          command: 'kanbn.sortColumn',
-                          columnName
-                        })
-                      }}
-                    >
-                      <i className="codicon codicon-list-filter"></i>
-                    </button>
-                  ))(columnName in state.columnSorting, state.columnSorting[columnName] ?? [])}
-                </h2>
+                {renderColumnHeader(columnName, column as any[])}
                 <div className="kanbn-column-task-list-container">
                   {/* 75.27: List view renders a flat table instead of draggable cards */}
                   {viewMode === 'list'
@@ -1177,7 +1668,7 @@ function Board (): JSX.Element {
             )
           })}
         </DragDropContext>
-      </div>
+      </div>}
       {contextMenu !== null && (() => {
         // Viewport-clamp the menu position
         const menuWidth = 220
@@ -1210,6 +1701,12 @@ function Board (): JSX.Element {
                   Tags <span className="kanbn-context-menu-arrow">▶</span>
                 </button>
                 <div className="kanbn-context-menu-separator" />
+                <button className="kanbn-context-menu-item" onClick={() => {
+                  vscode.postMessage({ command: 'kanbn.startWork', taskId: contextMenu.task.id })
+                  setContextMenu(null)
+                }}>
+                  Start work
+                </button>
                 <button className="kanbn-context-menu-item" onClick={() => {
                   const taskPath = state.kanbnFolder !== ''
                     ? `${state.kanbnFolder}/.kanbn/tasks/${contextMenu.task.id}.md`
@@ -1,8 +1,25 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react'
-import { ResponsiveContainer, LineChart, Line, CartesianGrid, XAxis, YAxis, Tooltip } from 'recharts'
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  AreaChart,
+  Area,
+  ComposedChart,
+  Bar,
+  CartesianGrid,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend
+} from 'recharts'
 import vscode from './vscode'
 import formatDate from 'dateformat'
 import { debounce } from 'throttle-debounce'
+import { paramCase } from '@basementuniverse/kanbn/src/utility'
+
+// Colours for each column in the cumulative flow diagram
+const cumulativeFlowColours = ['#3c7', '#3794ff', '#c586c0', '#d7ba7d', '#4ec9b0', '#f48771', '#9cdcfe', '#ce9178']
 
 const Burndown = (): JSX.Element => {
   const [state, setState] = useState(vscode.getState() ?? {
@@ -10,31 +27,40 @@ const Burndown = (): JSX.Element => {
     dateFormat: 'yyyy-mm-dd',
     sprints: [],
     burndownData: { series: [] },
+    cumulativeFlowData: null,
+    velocityData: [],
+    chart: 'burndown',
     sprintMode: false,
     sprint: '',
     startDate: '',
     endDate: ''
   })
   const processMessage = useCallback(event => {
-    const newState: any = {}
-    newState.name = event.data.index.name
-    newState.sprints = 'sprints' in event.data.index.options
-      ? event.data.index.options.sprints
-      : []
-    newState.burndownData = event.data.burndownData
-    newState.dateFormat = event.data.dateFormat
-    newState.sprintMode = state.sprintMode
-    newState.sprint = state.sprint
-    newState.startDate = state.startDate
-    if (newState.sprintMode === false && newState.burndownData.series.length > 0 && newState.startDate === '') {
-      newState.startDate = formatDate(newState.burndownData.series[0].from, state.dateFormat)
-    }
-    newState.endDate = state.endDate
-    if (newState.sprintMode === false && newState.burndownData.series.length > 0 && newState.endDate === '') {
-      newState.endDate = formatDate(newState.burndownData.series[0].to, state.dateFormat)
-    }
-    vscode.setState(newState)
-    setState(newState)
+    // Use the latest state, since this handler is only registered once
+    setState(prevState => {
+      const newState: any = {}
+      newState.name = event.data.index.name
+      newState.sprints = 'sprints' in event.data.index.options
+        ? event.data.index.options.sprints
+        : []
+      newState.burndownData = event.data.burndownData
+      newState.cumulativeFlowData = event.data.cumulativeFlowData ?? null
+      newState.velocityData = event.data.velocityData ?? []
+      newState.chart = prevState.chart ?? 'burndown'
+      newState.dateFormat = event.data.dateFormat
+      newState.sprintMode = prevState.sprintMode
+      newState.sprint = prevState.sprint
+      newState.startDate = prevState.startDate
+      if (newState.sprintMode === false && newState.burndownData.series.length > 0 && newState.startDate === '') {
+        newState.startDate = formatDate(newState.burndownData.series[0].from, prevState.dateFormat)
+      }
+      newState.endDate = prevState.endDate
+      if (newState.sprintMode === false && newState.burndownData.series.length > 0 && newState.endDate === '') {
+        newState.endDate = formatDate(newState.burndownData.series[0].to, prevState.dateFormat)
+      }
+      vscode.setState(newState)
+      return newState
+    })
   }, [])
 
   useEffect(() => {
@@ -44,6 +70,8 @@ const Burndown = (): JSX.Element => {
     }
   }, [])
   const hasSprints = state.sprints.length > 0
+  // The velocity chart needs sprints, so fall back to the burndown chart if there aren't any
+  const chart = state.chart === 'velocity' && !hasSprints ? 'burndown' : state.chart
   const setSprintMode = (sprintMode): void => {
     const newState = { ...state, sprintMode }
     setState(newState)
@@ -64,6 +92,11 @@ const Burndown = (): JSX.Element => {
     setState(newState)
     vscode.setState(newState)
   }
+  const setChart = (chart: 'burndown' | 'cumulativeFlow' | 'velocity'): void => {
+    const newState = { ...state, chart }
+    setState(newState)
+    vscode.setState(newState)
+  }
 
   const refreshBurndownData = useRef(debounce(500, settings => {
     vscode.postMessage({
@@ -147,6 +180,13 @@ const Burndown = (): JSX.Element => {
     }))
     : []
 
+  // Task counts per column, keyed by column index (column names can't be used as keys since they may contain dots)
+  const cumulativeFlowColumns: string[] = state.cumulativeFlowData?.columns ?? []
+  const cumulativeFlowChartData = (state.cumulativeFlowData?.series ?? []).map(dataPoint => ({
+    x: Date.parse(dataPoint.x),
+    ...Object.fromEntries(dataPoint.counts.map((count: number, i: number) => [`c${i}`, count]))
+  }))
+
   const formatXAxis = (date): string => {
     return formatDate(date, state.dateFormat)
   }
@@ -169,6 +209,36 @@ const Burndown = (): JSX.Element => {
     return null
   }
 
+  const renderCumulativeFlowTooltip = (e): JSX.Element | null => {
+    if (e.active === true && e.payload !== undefined && e.payload.length > 0) {
+      const data = e.payload[0].payload
+      return (
+        <div className="kanbn-burndown-tooltip">
+          <p className="kanbn-burndown-tooltip-date">{formatDate(data.x, state.dateFormat)}</p>
+          {cumulativeFlowColumns.map((column, i) => (
+            <p className="kanbn-cumulative-flow-tooltip-column" key={column}>{column}: {data[`c${i}`]}</p>
+          ))}
+        </div>
+      )
+    }
+    return null
+  }
+
+  const renderVelocityTooltip = (e): JSX.Element | null => {
+    if (e.active === true && e.payload !== undefined && e.payload.length > 0) {
+      const data = e.payload[0].payload
+      return (
+        <div className="kanbn-burndown-tooltip">
+          <p className="kanbn-burndown-tooltip-date">{data.name}</p>
+          <p className="kanbn-velocity-tooltip-committed">Committed workload: {data.committed}</p>
+          <p className="kanbn-velocity-tooltip-completed">Completed workload: {data.completed}</p>
+          <p className="kanbn-velocity-tooltip-average">Rolling average: {Math.round(data.average * 10) / 10}</p>
+        </div>
+      )
+    }
+    return null
+  }
+
   useEffect(() => {
     vscode.postMessage({ command: 'kanbn.updateMe' })
   }, [])
@@ -236,11 +306,114 @@ const Burndown = (): JSX.Element => {
               >
                 <i className="codicon codicon-clock"></i>
               </button>
+              <button
+                type="button"
+                className={[
+                  'kanbn-header-button',
+                  'kanbn-burndown-settings-burndown-chart',
+                  chart === 'burndown' ? 'kanbn-header-button-active' : 'kanbn-header-button-inactive'
+                ].join(' ')}
+                onClick={() => { setChart('burndown') }}
+                title="View burndown chart"
+              >
+                <i className="codicon codicon-graph-line"></i>
+              </button>
+              <button
+                type="button"
+                className={[
+                  'kanbn-header-button',
+                  'kanbn-burndown-settings-cumulative-flow',
+                  chart === 'cumulativeFlow' ? 'kanbn-header-button-active' : 'kanbn-header-button-inactive'
+                ].join(' ')}
+                onClick={() => { setChart('cumulativeFlow') }}
+                title="View cumulative flow diagram"
+              >
+                <i className="codicon codicon-layers"></i>
+              </button>
+              {hasSprints && <button
+                type="button"
+                className={[
+                  'kanbn-header-button',
+                  'kanbn-burndown-settings-velocity',
+                  chart === 'velocity' ? 'kanbn-header-button-active' : 'kanbn-header-button-inactive'
+                ].join(' ')}
+                onClick={() => { setChart('velocity') }}
+                title="View velocity chart"
+              >
+                <i className="codicon codicon-dashboard"></i>
+              </button>}
             </form>
           </div>
         </h1>
       </div>
-      <div className="kanbn-burndown">
+      {chart === 'cumulativeFlow' && <div className="kanbn-burndown kanbn-cumulative-flow">
+        <ResponsiveContainer width="100%" height="100%" className="kanbn-cumulative-flow-chart">
+          <AreaChart data={cumulativeFlowChartData}>
+            {/* Stack the last column (e.g. Done) at the bottom */}
+            {[...cumulativeFlowColumns.keys()].reverse().map(i => (
+              <Area
+                key={cumulativeFlowColumns[i]}
+                className={`kanbn-cumulative-flow-area kanbn-cumulative-flow-area-${String(paramCase(cumulativeFlowColumns[i]))}`}
+                type="stepAfter"
+                dataKey={`c${i}`}
+                name={cumulativeFlowColumns[i]}
+                stackId="columns"
+                stroke={cumulativeFlowColours[i % cumulativeFlowColours.length]}
+                fill={cumulativeFlowColours[i % cumulativeFlowColours.length]}
+                fillOpacity={0.6}
+                isAnimationActive={false}
+              />
+            ))}
+            <CartesianGrid className="kanbn-burndown-grid" strokeDasharray="5 5" vertical={false} />
+            {cumulativeFlowChartData.length > 0 && <XAxis
+              dataKey="x"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={formatXAxis}
+              tickCount={6}
+            />}
+            <YAxis allowDecimals={false} />
+            <Tooltip content={renderCumulativeFlowTooltip} />
+            <Legend />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>}
+      {chart === 'velocity' && <div className="kanbn-burndown kanbn-velocity">
+        <ResponsiveContainer width="100%" height="100%" className="kanbn-velocity-chart">
+          <ComposedChart data={state.velocityData}>
+            <CartesianGrid className="kanbn-burndown-grid" strokeDasharray="5 5" vertical={false} />
+            <XAxis dataKey="name" />
+            <YAxis />
+            <Tooltip content={renderVelocityTooltip} />
+            <Legend />
+            <Bar
+              className="kanbn-velocity-committed"
+              dataKey="committed"
+              name="Committed"
+              fill="#3794ff"
+              fillOpacity={0.4}
+              isAnimationActive={false}
+            />
+            <Bar
+              className="kanbn-velocity-completed"
+              dataKey="completed"
+              name="Completed"
+              fill="#3c7"
+              isAnimationActive={false}
+            />
+            <Line
+              className="kanbn-velocity-average"
+              type="monotone"
+              dataKey="average"
+              name="Rolling average"
+              stroke="#d7ba7d"
+              strokeWidth={2}
+              isAnimationActive={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>}
+      {chart === 'burndown' && <div className="kanbn-burndown">
         <ResponsiveContainer width="100%" height="100%" className="kanbn-burndown-chart">
           <LineChart data={chartData}>
             <Line
@@ -263,7 +436,7 @@ const Burndown = (): JSX.Element => {
             <Tooltip content={renderTooltip} />
           </LineChart>
         </ResponsiveContainer>
-      </div>
+      </div>}
     </>
   )
 }
@@ -0,0 +1,201 @@
+import React, { useState } from 'react'
+import formatDate from 'dateformat'
+import { paramCase } from '@basementuniverse/kanbn/src/utility'
+import vscode from './vscode'
+import { parseDate, checkOverdue } from './dateUtils'
+
+type CalendarDateField = 'due' | 'started' | 'completed'
+
+const weekdayNames = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+// Get the start of the day containing a date
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+// Add a number of days to a date
+const addDays = (date: Date, days: number): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+// Get the Monday at the start of the week containing a date
+const startOfWeek = (date: Date): Date => addDays(startOfDay(date), -((date.getDay() + 6) % 7))
+
+// Get a key for the day containing a date (in local time)
+const dayKey = (date: Date): string => `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`
+
+// Get the days shown in the calendar: whole weeks covering the month, or a single week
+const getCalendarDays = (anchor: Date, mode: 'month' | 'week'): Date[] => {
+  const start = mode === 'month'
+    ? startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1))
+    : startOfWeek(anchor)
+  const end = mode === 'month'
+    ? addDays(startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)), 7)
+    : addDays(start, 7)
+  const days: Date[] = []
+  for (let day = start; day < end; day = addDays(day, 1)) {
+    days.push(day)
+  }
+  return days
+}
+
+const Calendar = ({ tasks, completedColumns, dateFormat, onContextMenu }: {
+  tasks: KanbnTask[]
+  completedColumns: string[]
+  dateFormat: string
+  onContextMenu: (e: React.MouseEvent, task: KanbnTask, columnName: string) => void
+}): JSX.Element => {
+  const [mode, setMode] = useState<'month' | 'week'>('month')
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()))
+  const [dateFields, setDateFields] = useState<CalendarDateField[]>(['due'])
+  const [dragOverDay, setDragOverDay] = useState<string | null>(null)
+
+  // Place each task on the days matching its selected dates
+  const entries = new Map<string, Array<{ task: KanbnTask, field: CalendarDateField }>>()
+  for (const task of tasks) {
+    for (const field of dateFields) {
+      const date = parseDate(task.metadata[field])
+      if (date == null) continue
+      const key = dayKey(date)
+      entries.set(key, [...(entries.get(key) ?? []), { task, field }])
+    }
+  }
+
+  const days = getCalendarDays(anchor, mode)
+  const today = dayKey(new Date())
+  const title = mode === 'month'
+    ? formatDate(anchor, 'mmmm yyyy')
+    : `${formatDate(days[0], 'd mmm')} – ${formatDate(days[6], 'd mmm yyyy')}`
+
+  // Move the calendar forwards or backwards by a month or a week
+  const navigate = (direction: number): void => {
+    setAnchor(mode === 'month'
+      ? new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1)
+      : addDays(anchor, direction * 7))
+  }
+
+  const toggleDateField = (field: CalendarDateField): void => {
+    setDateFields(dateFields.includes(field) ? dateFields.filter(f => f !== field) : [...dateFields, field])
+  }
+
+  // Change a task's due date to the day it was dropped on, keeping the time of day
+  const onDrop = (e: React.DragEvent, day: Date): void => {
+    e.preventDefault()
+    setDragOverDay(null)
+    const taskId = e.dataTransfer.getData('application/x-kanbn-task')
+    const task = tasks.find(t => t.id === taskId)
+    if (task === undefined) return
+    const due = parseDate(task.metadata.due)
+    if (due != null && dayKey(due) === dayKey(day)) return
+    const newDue = new Date(day)
+    if (due != null) {
+      newDue.setHours(due.getHours(), due.getMinutes(), due.getSeconds(), due.getMilliseconds())
+    }
+    vscode.postMessage({
+      command: 'kanbn.quickUpdate',
+      taskId,
+      updates: { due: newDue.toISOString() }
+    })
+  }
+
+  return (
+    <div className={`kanbn-calendar kanbn-calendar-${mode}`}>
+      <div className="kanbn-calendar-toolbar">
+        <button type="button" className="kanbn-calendar-button" onClick={() => { navigate(-1) }} title={`Previous ${mode}`}>
+          <i className="codicon codicon-chevron-left"></i>
+        </button>
+        <button type="button" className="kanbn-calendar-button" onClick={() => { setAnchor(startOfDay(new Date())) }}>
+          Today
+        </button>
+        <button type="button" className="kanbn-calendar-button" onClick={() => { navigate(1) }} title={`Next ${mode}`}>
+          <i className="codicon codicon-chevron-right"></i>
+        </button>
+        <h3 className="kanbn-calendar-title">{title}</h3>
+        {(['started', 'completed'] as CalendarDateField[]).map(field => (
+          <label key={field} className="kanbn-calendar-date-field">
+            <input
+              type="checkbox"
+              checked={dateFields.includes(field)}
+              onChange={() => { toggleDateField(field) }}
+            />
+            Show {field} dates
+          </label>
+        ))}
+        <div className="kanbn-view-mode-toggle kanbn-calendar-mode-toggle">
+          {(['month', 'week'] as Array<'month' | 'week'>).map(m => (
+            <button
+              key={m}
+              type="button"
+              className={`kanbn-view-mode-button${mode === m ? ' kanbn-view-mode-active' : ''}`}
+              onClick={() => { setMode(m) }}
+            >
+              {m === 'month' ? 'Month' : 'Week'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="kanbn-calendar-grid">
+        {weekdayNames.map(weekday => (
+          <div key={weekday} className="kanbn-calendar-weekday">{weekday}</div>
+        ))}
+        {days.map(day => {
+          const key = dayKey(day)
+          return (
+            <div
+              key={key}
+              className={[
+                'kanbn-calendar-day',
+                key === today ? 'kanbn-calendar-today' : null,
+                mode === 'month' && day.getMonth() !== anchor.getMonth() ? 'kanbn-calendar-other-month' : null,
+                dragOverDay === key ? 'drag-over' : null
+              ].filter(i => i).join(' ')}
+              onDragOver={(e) => {
+                if (e.dataTransfer.types.includes('application/x-kanbn-task')) {
+                  e.preventDefault()
+                  setDragOverDay(key)
+                }
+              }}
+              onDragLeave={() => { setDragOverDay(null) }}
+              onDrop={(e) => { onDrop(e, day) }}
+            >
+              <div className="kanbn-calendar-day-number">{day.getDate()}</div>
+              {(entries.get(key) ?? []).map(({ task, field }) => {
+                const isCompletedColumn = completedColumns.includes(task.column)
+                return (
+                  <div
+                    key={`${task.id}-${field}`}
+                    className={[
+                      'kanbn-calendar-task',
+                      `kanbn-calendar-task-${field}`,
+                      // TODO: remove the explicit String cast once typescript bindings for kanbn are updated
+                      `kanbn-task-column-${String(paramCase(task.column))}`,
+                      field === 'due' && checkOverdue(task) ? 'kanbn-task-overdue' : null,
+                      isCompletedColumn ? 'kanbn-task-in-completed-column' : null
+                    ].filter(i => i).join(' ')}
+                    draggable={field === 'due'}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('application/x-kanbn-task', task.id)
+                      e.dataTransfer.effectAllowed = 'move'
+                    }}
+                    onClick={() => {
+                      vscode.postMessage({
+                        command: 'kanbn.task',
+                        taskId: task.id,
+                        columnName: task.column
+                      })
+                    }}
+                    onContextMenu={(e) => { onContextMenu(e, task, task.column) }}
+                    title={`${task.name}\n${task.id} in ${task.column}\n${field[0].toUpperCase()}${field.slice(1)}: ${
+                      formatDate(parseDate(task.metadata[field]) ?? day, dateFormat)
+                    }`}
+                  >
+                    {field !== 'due' && <i className={`codicon codicon-${field === 'started' ? 'play' : 'check'}`}></i>}
+                    {task.name}
+                  </div>
+                )
+              })}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default Calendar
@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import vscode from './vscode'
+
+type ConflictSide = 'ours' | 'theirs'
+
+interface FileConflict {
+  file: string
+  oursLabel: string
+  theirsLabel: string
+  ours: any
+  theirs: any
+  error: string | null
+}
+
+interface TaskConflict extends FileConflict {
+  id: string
+}
+
+interface ConflictResolution {
+  settings: ConflictSide
+  columns: Record<string, ConflictSide>
+  tasks: Record<string, ConflictSide | 'merge'>
+}
+
+const emptyResolution = (): ConflictResolution => ({ settings: 'ours', columns: {}, tasks: {} })
+
+// Format a task property for display
+const formatValue = (value: any): string => {
+  if (value === undefined || value === null) return ''
+  if (Array.isArray(value)) return value.map(formatValue).join(', ')
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Get the column that a task is in on one side of an index conflict, or null if it isn't on the board
+const columnOf = (index: any, taskId: string): string | null =>
+  Object.keys(index.columns).find(columnName => (index.columns[columnName] as string[]).includes(taskId)) ?? null
+
+// Get the properties that differ between the two sides of a task conflict
+const taskDifferences = (ours: any, theirs: any): Array<{ field: string, ours: string, theirs: string }> => {
+  const summaries = (task: any): Record<string, string> => ({
+    Name: task.name,
+    Description: task.description ?? '',
+    ...Object.fromEntries(Object.entries(task.metadata ?? {}).map(([key, value]) => [key, formatValue(value)])),
+    'Sub-tasks': (task.subTasks ?? []).map((subTask: any) => `${subTask.completed === true ? '[x]' : '[ ]'} ${String(subTask.text)}`).join('\n'),
+    Relations: (task.relations ?? []).map((relation: any) => `${String(relation.type)} ${String(relation.task)}`).join('\n'),
+    Comments: (task.comments ?? []).map((comment: any) => `${String(comment.author)}: ${String(comment.text)}`).join('\n')
+  })
+  const oursSummary = summaries(ours)
+  const theirsSummary = summaries(theirs)
+  return [...new Set([...Object.keys(oursSummary), ...Object.keys(theirsSummary)])]
+    .filter(field => (oursSummary[field] ?? '') !== (theirsSummary[field] ?? ''))
+    .map(field => ({ field, ours: oursSummary[field] ?? '', theirs: theirsSummary[field] ?? '' }))
+}
+
+const Conflicts = (): JSX.Element => {
+  const [state, setState] = useState<{ index: FileConflict | null, tasks: TaskConflict[] } | null>(null)
+  const [resolution, setResolution] = useState<ConflictResolution>(emptyResolution())
+
+  const processMessage = useCallback(event => {
+    if (event.data.type !== 'conflicts') return
+    setState({ index: event.data.index, tasks: event.data.tasks })
+    setResolution(emptyResolution())
+  }, [])
+
+  useEffect(() => {
+    window.addEventListener('message', processMessage)
+    return () => {
+      window.removeEventListener('message', processMessage)
+    }
+  }, [])
+
+  // Indicate that the conflicts panel is ready to receive messages and should be updated
+  useEffect(() => vscode.postMessage({ command: 'kanbn.updateMe' }), [])
+
+  if (state === null) {
+    return <div className="kanbn-conflicts">Loading...</div>
+  }
+
+  const conflicts = [...(state.index !== null ? [state.index] : []), ...state.tasks]
+  const unparsed = conflicts.filter(conflict => conflict.error !== null)
+  const index = state.index !== null && state.index.error === null ? state.index : null
+  const tasks = state.tasks.filter(conflict => conflict.error === null)
+
+  // Tasks that are in a different column on each side of the index conflict (or only on one side)
+  const movedTasks = index !== null
+    ? [...new Set([...Object.values(index.ours.columns), ...Object.values(index.theirs.columns)].flat() as string[])]
+        .filter(taskId => columnOf(index.ours, taskId) !== columnOf(index.theirs, taskId))
+    : []
+  const columnChoice = (taskId: string): ConflictSide =>
+    resolution.columns[taskId] ?? (index !== null && columnOf(index.ours, taskId) !== null ? 'ours' : 'theirs')
+
+  const renderSide = (conflict: FileConflict, side: ConflictSide): JSX.Element => (
+    <div className="kanbn-conflicts-side">
+      <h3>{side === 'ours' ? 'Ours' : 'Theirs'}{conflict[`${side}Label`] !== '' && ` (${String(conflict[`${side}Label`])})`}</h3>
+      {Object.entries(conflict[side].columns).map(([columnName, taskIds]) => (
+        <div key={columnName} className="kanbn-conflicts-column">
+          <strong>{columnName}</strong>
+          <ul>
+            {(taskIds as string[]).map(taskId => (
+              <li
+                key={taskId}
+                className={movedTasks.includes(taskId)
+                  ? `kanbn-conflicts-task-moved${columnChoice(taskId) === side ? ' kanbn-conflicts-task-chosen' : ''}`
+                  : ''}
+              >
+                {taskId}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  )
+
+  return (
+    <div className="kanbn-conflicts">
+      <h1 className="kanbn-conflicts-title">Merge conflicts</h1>
+      {conflicts.length === 0 && <p className="kanbn-conflicts-empty">There are no merge conflicts in this board.</p>}
+
+      {unparsed.length > 0 && <div className="kanbn-conflicts-unparsed">
+        <h2>Files to resolve by hand</h2>
+        {unparsed.map(conflict => (
+          <div key={conflict.file} className="kanbn-conflicts-unparsed-file">
+            <button
+              type="button"
+              className="kanbn-conflicts-file"
+              onClick={() => { vscode.postMessage({ command: 'kanbn.openFile', file: conflict.file }) }}
+            >
+              {conflict.file}
+            </button>
+            <span className="kanbn-conflicts-error">{conflict.error}</span>
+          </div>
+        ))}
+      </div>}
+
+      {index !== null && <div className="kanbn-conflicts-index">
+        <h2>Board layout (index.md)</h2>
+        <div className="kanbn-conflicts-settings">
+          Board name, description and options:
+          {(['ours', 'theirs'] as ConflictSide[]).map(side => (
+            <label key={side}>
+              <input
+                type="radio"
+                checked={resolution.settings === side}
+                onChange={() => { setResolution({ ...resolution, settings: side }) }}
+              />
+              {side === 'ours' ? 'Ours' : 'Theirs'} ({index[side].name})
+            </label>
+          ))}
+        </div>
+        <div className="kanbn-conflicts-sides">
+          {renderSide(index, 'ours')}
+          {renderSide(index, 'theirs')}
+        </div>
+        {movedTasks.length > 0 && <table className="kanbn-conflicts-table">
+          <thead>
+            <tr>
+              <th>Task</th>
+              <th>Ours</th>
+              <th>Theirs</th>
+            </tr>
+          </thead>
+          <tbody>
+            {movedTasks.map(taskId => (
+              <tr key={taskId}>
+                <td>{taskId}</td>
+                {(['ours', 'theirs'] as ConflictSide[]).map(side => (
+                  <td key={side}>
+                    <label>
+                      <input
+                        type="radio"
+                        checked={columnChoice(taskId) === side}
+                        onChange={() => { setResolution({ ...resolution, columns: { ...resolution.columns, [taskId]: side } }) }}
+                      />
+                      {columnOf(index[side], taskId) ?? 'Not on the board'}
+                    </label>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>}
+      </div>}
+
+      {tasks.length > 0 && <div className="kanbn-conflicts-tasks">
+        <h2>Tasks</h2>
+        {tasks.map(conflict => (
+          <div key={conflict.id} className="kanbn-conflicts-task">
+            <h3>{conflict.ours.name}</h3>
+            <table className="kanbn-conflicts-table">
+              <thead>
+                <tr>
+                  <th></th>
+                  <th>Ours{conflict.oursLabel !== '' && ` (${conflict.oursLabel})`}</th>
+                  <th>Theirs{conflict.theirsLabel !== '' && ` (${conflict.theirsLabel})`}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {taskDifferences(conflict.ours, conflict.theirs).map(difference => (
+                  <tr key={difference.field}>
+                    <th>{difference.field}</th>
+                    <td>{difference.ours}</td>
+                    <td>{difference.theirs}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="kanbn-conflicts-choice">
+              {([['ours', 'Keep ours'], ['theirs', 'Keep theirs'], ['merge', 'Merge']] as Array<[ConflictSide | 'merge', string]>).map(([choice, label]) => (
+                <label key={choice}>
+                  <input
+                    type="radio"
+                    checked={(resolution.tasks[conflict.id] ?? 'ours') === choice}
+                    onChange={() => { setResolution({ ...resolution, tasks: { ...resolution.tasks, [conflict.id]: choice } }) }}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>}
+
+      {(index !== null || tasks.length > 0) && <div className="kanbn-conflicts-actions">
+        <button
+          type="button"
+          className="kanbn-task-editor-button kanbn-conflicts-resolve"
+          onClick={() => { vscode.postMessage({ command: 'kanbn.resolveConflicts', resolution }) }}
+        >
+          Resolve conflicts
+        </button>
+      </div>}
+    </div>
+  )
+}
+
+export default Conflicts
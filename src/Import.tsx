@@ -0,0 +1,149 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import vscode from './vscode'
+
+interface ImportedTask {
+  name: string
+  column: string
+  tags: string[]
+  assigned: string | null
+  due: string | null
+  subTasks: Array<{ text: string, completed: boolean }>
+  comments: any[]
+}
+
+interface ImportedBoard {
+  name: string
+  description: string
+  columns: string[]
+  tasks: ImportedTask[]
+}
+
+// The number of tasks to show in each column of the preview
+const previewTasks = 50
+
+const Import = (): JSX.Element => {
+  const [state, setState] = useState<{ source: string, fileName: string, board: ImportedBoard } | null>(null)
+  const [name, setName] = useState('')
+  // The column that each imported list or status is mapped to, or an empty string to leave its tasks out
+  const [columns, setColumns] = useState<Record<string, string>>({})
+
+  const processMessage = useCallback(event => {
+    if (event.data.type !== 'import') return
+    const board: ImportedBoard = event.data.board
+    setState({ source: event.data.source, fileName: event.data.fileName, board })
+    setName(board.name)
+    setColumns(Object.fromEntries(board.columns.map(column => [column, column])))
+  }, [])
+
+  useEffect(() => {
+    window.addEventListener('message', processMessage)
+    return () => {
+      window.removeEventListener('message', processMessage)
+    }
+  }, [])
+
+  // Indicate that the import panel is ready to receive messages and should be updated
+  useEffect(() => vscode.postMessage({ command: 'kanbn.updateMe' }), [])
+
+  if (state === null) {
+    return <div className="kanbn-import">Loading...</div>
+  }
+
+  const board = state.board
+  const target = (column: string): string => (columns[column] ?? column).trim()
+  const targetColumns = [...new Set(board.columns.map(target).filter(column => column !== ''))]
+  const columnTasks = (column: string): ImportedTask[] => board.tasks.filter(task => target(task.column) === column)
+  const skipped = board.tasks.filter(task => target(task.column) === '').length
+
+  return (
+    <div className="kanbn-import">
+      <h1 className="kanbn-import-title">Import from {state.source}</h1>
+      <p className="kanbn-import-summary">
+        {board.tasks.length} task{board.tasks.length === 1 ? '' : 's'} in {board.columns.length} list{board.columns.length === 1 ? '' : 's'} read from {state.fileName}.
+      </p>
+
+      <div className="kanbn-import-name">
+        <label>
+          <p>Board name</p>
+          <input
+            type="text"
+            className="kanbn-task-editor-field-input"
+            value={name}
+            onChange={e => { setName(e.target.value) }}
+          />
+        </label>
+      </div>
+
+      <h2>Columns</h2>
+      <p className="kanbn-import-hint">Give lists the same name to merge them into one column. Clear a name to leave that list&apos;s tasks out.</p>
+      <table className="kanbn-import-columns">
+        <thead>
+          <tr>
+            <th>Imported list</th>
+            <th>Tasks</th>
+            <th>Column</th>
+          </tr>
+        </thead>
+        <tbody>
+          {board.columns.map(column => (
+            <tr key={column}>
+              <td>{column}</td>
+              <td>{board.tasks.filter(task => task.column === column).length}</td>
+              <td>
+                <input
+                  type="text"
+                  className="kanbn-task-editor-field-input"
+                  value={columns[column] ?? column}
+                  placeholder="Don't import"
+                  onChange={e => { setColumns({ ...columns, [column]: e.target.value }) }}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h2>Preview</h2>
+      {skipped > 0 && <p className="kanbn-import-hint">{skipped} task{skipped === 1 ? '' : 's'} won&apos;t be imported.</p>}
+      <div className="kanbn-import-preview">
+        {targetColumns.map(column => {
+          const tasks = columnTasks(column)
+          return (
+            <div key={column} className="kanbn-import-preview-column">
+              <h3>{column} <span className="kanbn-import-preview-count">{tasks.length}</span></h3>
+              {tasks.slice(0, previewTasks).map((task, i) => (
+                <div key={i} className="kanbn-import-preview-task">
+                  <div className="kanbn-import-preview-task-name">{task.name}</div>
+                  {task.tags.length > 0 && <div className="kanbn-import-preview-task-tags">
+                    {task.tags.map(tag => <span key={tag} className="kanbn-import-preview-task-tag">{tag}</span>)}
+                  </div>}
+                  <div className="kanbn-import-preview-task-details">
+                    {task.assigned !== null && <span>{task.assigned}</span>}
+                    {task.subTasks.length > 0 && <span>
+                      {task.subTasks.filter(subTask => subTask.completed).length}/{task.subTasks.length} sub-tasks
+                    </span>}
+                    {task.comments.length > 0 && <span>{task.comments.length} comment{task.comments.length === 1 ? '' : 's'}</span>}
+                  </div>
+                </div>
+              ))}
+              {tasks.length > previewTasks && <div className="kanbn-import-hint">and {tasks.length - previewTasks} more</div>}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="kanbn-import-actions">
+        <button
+          type="button"
+          className="kanbn-task-editor-button kanbn-import-button"
+          disabled={name.trim() === '' || targetColumns.length === 0}
+          onClick={() => { vscode.postMessage({ command: 'kanbn.import', name: name.trim(), columns }) }}
+        >
+          Create board
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default Import
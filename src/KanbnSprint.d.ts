@@ -3,4 +3,14 @@ declare interface KanbnSprint {
   start: string
   name: string
   description?: string
+  end?: string
+  goal?: string
+  closed?: string
+  report?: {
+    completed: string[]
+    unfinished: string[]
+    committedWorkload: number
+    completedWorkload: number
+    carriedOverTo: string | null
+  }
 }
@@ -0,0 +1,324 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  ScatterChart,
+  Scatter,
+  ReferenceLine,
+  CartesianGrid,
+  XAxis,
+  YAxis,
+  Tooltip
+} from 'recharts'
+import formatDate from 'dateformat'
+import vscode from './vscode'
+import { parseDate } from './dateUtils'
+
+type MetricsMeasure = 'leadTime' | 'cycleTime'
+
+// Per-task flow metrics, as posted by the metrics panel. Times are in days.
+interface MetricsTask {
+  id: string
+  name: string
+  column: string
+  assigned: string | null
+  tags: string[]
+  created: string | null
+  started: string | null
+  completed: string | null
+  leadTime: number | null
+  cycleTime: number | null
+}
+
+interface MetricsSummary {
+  count: number
+  mean: number | null
+  percentiles: Record<number, number | null>
+}
+
+const DAY = 24 * 60 * 60 * 1000
+const percentiles = [50, 85, 95]
+const percentileColours: Record<number, string> = { 50: '#3c7', 85: '#d7ba7d', 95: '#f48771' }
+const measureNames: Record<MetricsMeasure, string> = { leadTime: 'Lead time', cycleTime: 'Cycle time' }
+
+// Get a percentile of some sorted values using the nearest-rank method
+const percentile = (sorted: number[], p: number): number | null => sorted.length > 0
+  ? sorted[Math.max(0, Math.ceil(p / 100 * sorted.length) - 1)]
+  : null
+
+// Get the count, mean and percentiles of some times
+const summarise = (times: number[]): MetricsSummary => {
+  const sorted = [...times].sort((a, b) => a - b)
+  return {
+    count: sorted.length,
+    mean: sorted.length > 0 ? sorted.reduce((a, b) => a + b, 0) / sorted.length : null,
+    percentiles: Object.fromEntries(percentiles.map(p => [p, percentile(sorted, p)]))
+  }
+}
+
+// Format a number of days for display
+const formatDays = (days: number | null): string => days !== null ? `${days.toFixed(1)}d` : '-'
+
+// Get the start of the week (Monday) containing a date
+const startOfWeek = (date: Date): Date => {
+  const d = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  d.setDate(d.getDate() - (d.getDay() + 6) % 7)
+  return d
+}
+
+// Count the tasks completed in each week, including weeks where no tasks were completed
+const getThroughput = (tasks: MetricsTask[]): Array<{ x: number, count: number }> => {
+  const weeks = new Map<number, number>()
+  for (const task of tasks) {
+    const completed = parseDate(task.completed)
+    if (completed === null) continue
+    const week = startOfWeek(completed).getTime()
+    weeks.set(week, (weeks.get(week) ?? 0) + 1)
+  }
+  if (weeks.size === 0) return []
+  const first = Math.min(...weeks.keys())
+  const last = Math.max(...weeks.keys())
+  const throughput: Array<{ x: number, count: number }> = []
+  for (let week = new Date(first); week.getTime() <= last; week.setDate(week.getDate() + 7)) {
+    throughput.push({ x: week.getTime(), count: weeks.get(week.getTime()) ?? 0 })
+  }
+  return throughput
+}
+
+// Count the times falling into each whole-day bucket
+const getDistribution = (times: number[]): Array<{ days: number, count: number }> => {
+  if (times.length === 0) return []
+  const counts: number[] = new Array(Math.floor(Math.max(...times)) + 1).fill(0)
+  for (const time of times) {
+    counts[Math.floor(time)]++
+  }
+  return counts.map((count, days) => ({ days, count }))
+}
+
+const Metrics = (): JSX.Element => {
+  const [state, setState] = useState(vscode.getState() ?? {
+    name: '',
+    metrics: [],
+    dateFormat: 'yyyy-mm-dd',
+    measure: 'cycleTime',
+    tag: '',
+    assigned: ''
+  })
+
+  const processMessage = useCallback(event => {
+    setState(prevState => {
+      const newState = {
+        ...prevState,
+        name: event.data.index.name,
+        metrics: event.data.metrics,
+        dateFormat: event.data.dateFormat
+      }
+      vscode.setState(newState)
+      return newState
+    })
+  }, [])
+
+  useEffect(() => {
+    window.addEventListener('message', processMessage)
+    return () => {
+      window.removeEventListener('message', processMessage)
+    }
+  }, [])
+
+  // Indicate that the metrics panel is ready to receive messages and should be updated
+  useEffect(() => vscode.postMessage({ command: 'kanbn.updateMe' }), [])
+
+  const setOption = (option: 'measure' | 'tag' | 'assigned', value: string): void => {
+    const newState = { ...state, [option]: value }
+    vscode.setState(newState)
+    setState(newState)
+  }
+
+  const allTasks: MetricsTask[] = state.metrics
+  const tags = [...new Set(allTasks.flatMap(task => task.tags))].sort()
+  const assignees = [...new Set(allTasks.map(task => task.assigned).filter((a): a is string => a !== null))].sort()
+  const tasks = allTasks.filter(task =>
+    (state.tag === '' || task.tags.includes(state.tag)) &&
+    (state.assigned === '' || task.assigned === state.assigned)
+  )
+
+  const measure: MetricsMeasure = state.measure
+  const summaries: Record<MetricsMeasure, MetricsSummary> = {
+    leadTime: summarise(tasks.map(task => task.leadTime).filter((t): t is number => t !== null)),
+    cycleTime: summarise(tasks.map(task => task.cycleTime).filter((t): t is number => t !== null))
+  }
+  const summary = summaries[measure]
+  const measuredTasks = tasks.filter(task => task[measure] !== null && parseDate(task.completed) !== null)
+  const distribution = getDistribution(measuredTasks.map(task => task[measure] as number))
+  const throughput = getThroughput(tasks)
+  const controlChartData = measuredTasks.map(task => ({
+    x: (parseDate(task.completed) as Date).getTime(),
+    y: task[measure] as number,
+    task
+  }))
+
+  // Open a task in the task editor
+  const openTask = (task: MetricsTask): void => {
+    vscode.postMessage({
+      command: 'kanbn.task',
+      taskId: task.id,
+      columnName: task.column
+    })
+  }
+
+  // Export the per-task data for the filtered tasks
+  const exportCsv = (): void => {
+    vscode.postMessage({
+      command: 'kanbn.exportMetrics',
+      taskIds: tasks.map(task => task.id)
+    })
+  }
+
+  const formatXAxis = (date): string => formatDate(date, state.dateFormat)
+
+  const renderControlChartTooltip = (e): JSX.Element | null => {
+    if (e.active === true && e.payload !== undefined && e.payload.length > 0) {
+      const data = e.payload[0].payload
+      return (
+        <div className="kanbn-burndown-tooltip">
+          <p className="kanbn-burndown-tooltip-date">{formatDate(data.x, state.dateFormat)}</p>
+          <p className="kanbn-metrics-tooltip-task">{data.task.name}</p>
+          <p className="kanbn-metrics-tooltip-time">{measureNames[measure]}: {formatDays(data.y)}</p>
+        </div>
+      )
+    }
+    return null
+  }
+
+  return (
+    <div className="kanbn-metrics">
+      <div className="kanbn-metrics-toolbar">
+        <h1 className="kanbn-metrics-name">{state.name}</h1>
+        <select
+          className="kanbn-metrics-filter kanbn-metrics-filter-tag"
+          value={state.tag}
+          onChange={e => { setOption('tag', e.target.value) }}
+          title="Filter by tag"
+        >
+          <option value="">All tags</option>
+          {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+        </select>
+        <select
+          className="kanbn-metrics-filter kanbn-metrics-filter-assigned"
+          value={state.assigned}
+          onChange={e => { setOption('assigned', e.target.value) }}
+          title="Filter by assignee"
+        >
+          <option value="">All assignees</option>
+          {assignees.map(assigned => <option key={assigned} value={assigned}>{assigned}</option>)}
+        </select>
+        <select
+          className="kanbn-metrics-filter kanbn-metrics-measure"
+          value={measure}
+          onChange={e => { setOption('measure', e.target.value) }}
+          title="Measure shown in the distribution and control charts"
+        >
+          <option value="cycleTime">Cycle time</option>
+          <option value="leadTime">Lead time</option>
+        </select>
+        <button
+          type="button"
+          className="kanbn-header-button kanbn-metrics-export"
+          onClick={exportCsv}
+          title="Export per-task data to CSV"
+        >
+          <i className="codicon codicon-export"></i>
+        </button>
+      </div>
+      <table className="kanbn-metrics-summary">
+        <thead>
+          <tr>
+            <th></th>
+            <th>Tasks</th>
+            <th>Mean</th>
+            {percentiles.map(p => <th key={p}>{p}th percentile</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {(['leadTime', 'cycleTime'] as MetricsMeasure[]).map(m => (
+            <tr key={m} className={m === measure ? 'kanbn-metrics-summary-active' : ''}>
+              <th>{measureNames[m]}</th>
+              <td>{summaries[m].count}</td>
+              <td>{formatDays(summaries[m].mean)}</td>
+              {percentiles.map(p => <td key={p}>{formatDays(summaries[m].percentiles[p])}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="kanbn-metrics-charts">
+        <div className="kanbn-metrics-chart kanbn-metrics-distribution">
+          <h2>{measureNames[measure]} distribution</h2>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={distribution}>
+              <CartesianGrid className="kanbn-burndown-grid" strokeDasharray="5 5" vertical={false} />
+              <XAxis dataKey="days" tickFormatter={days => `${String(days)}d`} />
+              <YAxis allowDecimals={false} />
+              <Tooltip
+                labelFormatter={(days: number) => `${days} to ${days + 1} days`}
+                contentStyle={{ backgroundColor: 'var(--vscode-menu-background)' }}
+              />
+              <Bar className="kanbn-metrics-bar" dataKey="count" name="Tasks" fill="#3794ff" isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="kanbn-metrics-chart kanbn-metrics-throughput">
+          <h2>Throughput per week</h2>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={throughput}>
+              <CartesianGrid className="kanbn-burndown-grid" strokeDasharray="5 5" vertical={false} />
+              <XAxis dataKey="x" tickFormatter={formatXAxis} />
+              <YAxis allowDecimals={false} />
+              <Tooltip
+                labelFormatter={week => `Week of ${formatDate(week, state.dateFormat)}`}
+                contentStyle={{ backgroundColor: 'var(--vscode-menu-background)' }}
+              />
+              <Bar className="kanbn-metrics-bar" dataKey="count" name="Completed" fill="#3c7" isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="kanbn-metrics-chart kanbn-metrics-control-chart">
+          <h2>{measureNames[measure]} control chart</h2>
+          <ResponsiveContainer width="100%" height="100%">
+            <ScatterChart>
+              <CartesianGrid className="kanbn-burndown-grid" strokeDasharray="5 5" />
+              {controlChartData.length > 0 && <XAxis
+                dataKey="x"
+                type="number"
+                domain={[(dataMin: number) => dataMin - DAY, (dataMax: number) => dataMax + DAY]}
+                tickFormatter={formatXAxis}
+                tickCount={6}
+              />}
+              <YAxis dataKey="y" type="number" tickFormatter={days => `${String(days)}d`} />
+              <Tooltip content={renderControlChartTooltip} />
+              {percentiles.map(p => summary.percentiles[p] !== null && (
+                <ReferenceLine
+                  key={p}
+                  className={`kanbn-metrics-percentile kanbn-metrics-percentile-${p}`}
+                  y={summary.percentiles[p] as number}
+                  stroke={percentileColours[p]}
+                  strokeDasharray="5 5"
+                  label={{ value: `${p}%`, position: 'right', fill: percentileColours[p] }}
+                />
+              ))}
+              <Scatter
+                className="kanbn-metrics-point"
+                data={controlChartData}
+                fill="#3794ff"
+                isAnimationActive={false}
+                onClick={data => { openTask(data.task) }}
+              />
+            </ScatterChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default Metrics
@@ -0,0 +1,266 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import formatDate from 'dateformat'
+import vscode from './vscode'
+import { parseDate } from './dateUtils'
+
+interface SprintForm {
+  name: string
+  description: string
+  goal: string
+  start: string
+  end: string
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Get a date as a yyyy-mm-dd string for use in a date input
+const toInputDate = (date: Date): string => formatDate(date, 'yyyy-mm-dd')
+
+// Get an empty planning form for a two-week sprint starting today
+const emptyForm = (): SprintForm => ({
+  name: '',
+  description: '',
+  goal: '',
+  start: toInputDate(new Date()),
+  end: toInputDate(new Date(Date.now() + 13 * DAY))
+})
+
+// Sum the workload of some tasks
+const totalWorkload = (tasks: KanbnTask[]): number => tasks.reduce((a, task) => a + (task.workload ?? 0), 0)
+
+const Sprint = (): JSX.Element => {
+  const [state, setState] = useState(vscode.getState() ?? {
+    name: '',
+    sprints: [],
+    tasks: [],
+    completedColumns: [],
+    dateFormat: 'yyyy-mm-dd',
+    selected: null
+  })
+  const [form, setForm] = useState<SprintForm | null>(null)
+
+  const processMessage = useCallback(event => {
+    setState(prevState => {
+      const sprints: KanbnSprint[] = event.data.sprints
+      // Select the latest open sprint if nothing is selected, or the selected sprint no longer exists
+      let selected: string | null = prevState.selected
+      if (selected === null || !sprints.some(sprint => sprint.name === selected)) {
+        const open = sprints.filter(sprint => sprint.closed == null)
+        selected = open.length > 0
+          ? open[open.length - 1].name
+          : sprints.length > 0 ? sprints[sprints.length - 1].name : null
+      }
+      const newState = {
+        ...prevState,
+        name: event.data.index.name,
+        sprints,
+        tasks: event.data.tasks,
+        completedColumns: event.data.completedColumns,
+        dateFormat: event.data.dateFormat,
+        selected
+      }
+      vscode.setState(newState)
+      return newState
+    })
+  }, [])
+
+  useEffect(() => {
+    window.addEventListener('message', processMessage)
+    return () => {
+      window.removeEventListener('message', processMessage)
+    }
+  }, [])
+
+  // Indicate that the sprint panel is ready to receive messages and should be updated
+  useEffect(() => vscode.postMessage({ command: 'kanbn.updateMe' }), [])
+
+  const select = (selected: string): void => {
+    const newState = { ...state, selected }
+    vscode.setState(newState)
+    setState(newState)
+  }
+
+  const sprints: KanbnSprint[] = state.sprints
+  const tasks: KanbnTask[] = state.tasks
+  const sprint = sprints.find(s => s.name === state.selected) ?? null
+  const isCompleted = (task: KanbnTask): boolean =>
+    task.metadata.completed != null || (state.completedColumns.includes(task.column) as boolean)
+  const sprintTasks = sprint !== null ? tasks.filter(task => task.metadata.sprint === sprint.name) : []
+  const completedTasks = sprintTasks.filter(isCompleted)
+  const committedWorkload = totalWorkload(sprintTasks)
+  const completedWorkload = totalWorkload(completedTasks)
+  const taskName = (taskId: string): string => tasks.find(task => task.id === taskId)?.name ?? taskId
+
+  // Get the number of days left in the selected sprint
+  const end = parseDate(sprint?.end)
+  const daysLeft = end !== null ? Math.ceil((end.getTime() + DAY - Date.now()) / DAY) : null
+
+  // Open a task in the task editor
+  const openTask = (task: KanbnTask): void => {
+    vscode.postMessage({
+      command: 'kanbn.task',
+      taskId: task.id,
+      columnName: task.column
+    })
+  }
+
+  const createSprint = (e: React.FormEvent): void => {
+    e.preventDefault()
+    if (form === null) return
+    vscode.postMessage({
+      command: 'kanbn.createSprint',
+      sprint: form
+    })
+    select(form.name.trim())
+    setForm(null)
+  }
+
+  const setFormField = (field: keyof SprintForm, value: string): void => {
+    if (form !== null) {
+      setForm({ ...form, [field]: value })
+    }
+  }
+
+  const renderTaskList = (taskIds: string[]): JSX.Element => (
+    <ul className="kanbn-sprint-report-tasks">
+      {taskIds.map(taskId => <li key={taskId}>{taskName(taskId)}</li>)}
+    </ul>
+  )
+
+  return (
+    <div className="kanbn-sprint">
+      <div className="kanbn-sprint-toolbar">
+        <h1 className="kanbn-sprint-board-name">{state.name}</h1>
+        {sprints.length > 0 && <select
+          className="kanbn-sprint-select"
+          value={state.selected ?? ''}
+          onChange={e => { select(e.target.value) }}
+        >
+          {[...sprints].reverse().map(s => (
+            <option key={s.name} value={s.name}>{s.name}{s.closed != null ? ' (closed)' : ''}</option>
+          ))}
+        </select>}
+        <button
+          type="button"
+          className="kanbn-header-button kanbn-sprint-new"
+          onClick={() => { setForm(form === null ? emptyForm() : null) }}
+          title="Plan a new sprint"
+        >
+          <i className="codicon codicon-add"></i>
+        </button>
+      </div>
+      {form !== null && <form className="kanbn-sprint-form" onSubmit={createSprint}>
+        <label>
+          Name
+          <input type="text" value={form.name} onChange={e => { setFormField('name', e.target.value) }} autoFocus required />
+        </label>
+        <label>
+          Goal
+          <input type="text" value={form.goal} onChange={e => { setFormField('goal', e.target.value) }} />
+        </label>
+        <label>
+          Description
+          <textarea value={form.description} onChange={e => { setFormField('description', e.target.value) }} />
+        </label>
+        <label>
+          Start
+          <input type="date" value={form.start} onChange={e => { setFormField('start', e.target.value) }} required />
+        </label>
+        <label>
+          End
+          <input type="date" value={form.end} min={form.start} onChange={e => { setFormField('end', e.target.value) }} required />
+        </label>
+        <div className="kanbn-sprint-form-buttons">
+          <button type="submit" className="kanbn-task-editor-button">Create sprint</button>
+          <button type="button" className="kanbn-task-editor-button" onClick={() => { setForm(null) }}>Cancel</button>
+        </div>
+      </form>}
+      {sprint === null && form === null && <p className="kanbn-sprint-empty">There are no sprints yet.</p>}
+      {sprint !== null && <div className="kanbn-sprint-details">
+        <h2 className="kanbn-sprint-name">{sprint.name}</h2>
+        <p className="kanbn-sprint-dates">
+          {formatDate(sprint.start, state.dateFormat)}
+          {sprint.end !== undefined && ` to ${formatDate(sprint.end, state.dateFormat)}`}
+          {sprint.closed != null
+            ? `, closed ${formatDate(sprint.closed, state.dateFormat)}`
+            : daysLeft !== null && (daysLeft > 0 ? `, ${daysLeft} day${daysLeft === 1 ? '' : 's'} left` : ', ended')}
+        </p>
+        {sprint.goal !== undefined && <p className="kanbn-sprint-goal">Goal: {sprint.goal}</p>}
+        {sprint.description !== undefined && sprint.description !== '' && <p className="kanbn-sprint-description">{sprint.description}</p>}
+        {sprint.closed == null && <>
+          <div className="kanbn-sprint-summary">
+            <span>{completedTasks.length} of {sprintTasks.length} task{sprintTasks.length === 1 ? '' : 's'} completed</span>
+            <span>{completedWorkload} of {committedWorkload} workload completed</span>
+          </div>
+          <div className="kanbn-sprint-progress">
+            <div
+              className="kanbn-sprint-progress-bar"
+              style={{ width: `${sprintTasks.length > 0 ? Math.round(completedTasks.length / sprintTasks.length * 100) : 0}%` }}
+            ></div>
+          </div>
+          <div className="kanbn-sprint-actions">
+            <button
+              type="button"
+              className="kanbn-task-editor-button kanbn-sprint-add-tasks"
+              onClick={() => { vscode.postMessage({ command: 'kanbn.addSprintTasks', sprint: sprint.name }) }}
+            >
+              Add tasks
+            </button>
+            <button
+              type="button"
+              className="kanbn-task-editor-button kanbn-sprint-close"
+              onClick={() => { vscode.postMessage({ command: 'kanbn.closeSprint', sprint: sprint.name }) }}
+            >
+              Close sprint
+            </button>
+          </div>
+          <table className="kanbn-sprint-tasks">
+            <tbody>
+              {sprintTasks.map(task => (
+                <tr key={task.id} className={isCompleted(task) ? 'kanbn-sprint-task-completed' : ''}>
+                  <td>
+                    <button type="button" className="kanbn-sprint-task-name" onClick={() => { openTask(task) }}>{task.name}</button>
+                  </td>
+                  <td>{task.column}</td>
+                  <td>{task.workload ?? ''}</td>
+                  <td>
+                    <button
+                      type="button"
+                      className="kanbn-sprint-task-remove"
+                      onClick={() => { vscode.postMessage({ command: 'kanbn.removeSprintTask', taskId: task.id }) }}
+                      title="Remove from sprint"
+                    >
+                      <i className="codicon codicon-close"></i>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>}
+        {sprint.report !== undefined && <div className="kanbn-sprint-report">
+          <h3>Sprint report</h3>
+          <div className="kanbn-sprint-summary">
+            <span>
+              {sprint.report.completed.length} of {sprint.report.completed.length + sprint.report.unfinished.length} tasks completed
+            </span>
+            <span>{sprint.report.completedWorkload} of {sprint.report.committedWorkload} workload completed</span>
+          </div>
+          <h4>Completed</h4>
+          {renderTaskList(sprint.report.completed)}
+          {sprint.report.unfinished.length > 0 && <>
+            <h4>
+              Unfinished
+              {sprint.report.carriedOverTo !== null
+                ? ` (carried over to ${sprint.report.carriedOverTo})`
+                : ' (removed from the sprint)'}
+            </h4>
+            {renderTaskList(sprint.report.unfinished)}
+          </>}
+        </div>}
+      </div>}
+    </div>
+  )
+}
+
+export default Sprint
@@ -118,6 +118,16 @@ interface Tag {
   tag: string
 }
 
+interface TaskRevision {
+  hash: string
+  date: string | null
+  author: string
+  message: string
+  changes: string[]
+  taskFileChanged: boolean
+  hasParent: boolean
+}
+
 interface Attachment {
   type: 'file' | 'link'
   path?: string
@@ -194,6 +204,13 @@ const TaskEditor = (): JSX.Element => {
     })
   }
 
+  // Called when the start work button is clicked
+  const handleStartWork = (): void => {
+    vscode.postMessage({
+      command: 'kanbn.startWork'
+    })
+  }
+
   // Validate form data
   const validateName = (name: string): boolean => {
     if (state === null) { return false }
@@ -286,6 +303,14 @@ const TaskEditor = (): JSX.Element => {
     name: 'recurrenceType'
   })
 
+  // The task's history is only loaded from git when requested, since reading it can take a while
+  const [history, setHistory] = useState<TaskRevision[] | null>(null)
+  const [historyLoading, setHistoryLoading] = useState(false)
+  const handleLoadHistory = (): void => {
+    setHistoryLoading(true)
+    vscode.postMessage({ command: 'kanbn.history' })
+  }
+
   // Check if a task's due date is in the past
   const checkOverdue = (): boolean => {
     if (watchedDue != null) {
@@ -306,6 +331,13 @@ const TaskEditor = (): JSX.Element => {
       return
     }
 
+    // Handle the task's history, loaded from git
+    if (event.data.command === 'history') {
+      setHistory(event.data.history ?? null)
+      setHistoryLoading(false)
+      return
+    }
+
     // Ignore messages without index data (non-update messages)
     if (event.data.index == null) return
 
@@ -324,7 +356,7 @@ const TaskEditor = (): JSX.Element => {
       taskPath: event.data.taskPath ?? null
     }
     setState(newState)
-    if (shouldUpdateEditorState) {
+    if (shouldUpdateEditorState || event.data.reset === true) {
       setShouldUpdateEditorState(false)
       function formatDateString (dateString: string | null): string | null {
         if (dateString === null) {
@@ -337,31 +369,33 @@ const TaskEditor = (): JSX.Element => {
 
         return `${year}-${month}-${day}`
       }
+      // New tasks are pre-filled from the chosen template (if any), except for the name
+      const source = event.data.task ?? event.data.template ?? null
       reset(
         {
           name: event.data.task?.name ?? '',
-          description: event.data.task?.description ?? '',
+          description: source?.description ?? '',
           column: event.data.columnName,
-          priority: event.data.task?.metadata?.priority ?? '',
-          progress: event.data.task?.metadata?.progress ?? 0,
-          relations: event.data.task?.relations ?? [],
-          subTasks: event.data.task?.subTasks ?? [],
-          comments: event.data.task?.comments ?? [],
+          priority: source?.metadata?.priority ?? '',
+          progress: source?.metadata?.progress ?? 0,
+          relations: source?.relations ?? [],
+          subTasks: source?.subTasks ?? [],
+          comments: source?.comments ?? [],
           attachments: (event.data.attachments ?? []).map((att: any) => ({
             type: att.type ?? 'link',
             path: att.path ?? '',
             url: att.url ?? '',
             title: att.title ?? ''
           })),
-          customFields: event.data.customFields?.map((customField: { name: string, type: string }) => ({ ...customField, value: (customField.type === 'date' ? formatDateString(event.data.task?.metadata[customField.name]) : event.data.task?.metadata[customField.name]) })) ?? [],
-          tags: event.data.task?.metadata?.tags.map((tag: string): Tag => ({ tag })) ?? [],
-          dueDate: formatDateString(event.data.task?.metadata?.due),
-          startedDate: formatDateString(event.data.task?.metadata?.started),
-          completedDate: formatDateString(event.data.task?.metadata?.completed),
-          assignedTo: event.data.task?.metadata?.assigned ?? '',
-          recurrenceType: event.data.task?.metadata?.recurrence?.type ?? 'none',
-          recurrenceInterval: event.data.task?.metadata?.recurrence?.interval ?? 1,
-          recurrenceDayOfMonth: event.data.task?.metadata?.recurrence?.dayOfMonth ?? 1
+          customFields: event.data.customFields?.map((customField: { name: string, type: string }) => ({ ...customField, value: (customField.type === 'date' ? formatDateString(source?.metadata[customField.name]) : source?.metadata[customField.name]) })) ?? [],
+          tags: source?.metadata?.tags.map((tag: string): Tag => ({ tag })) ?? [],
+          dueDate: formatDateString(source?.metadata?.due),
+          startedDate: formatDateString(source?.metadata?.started),
+          completedDate: formatDateString(source?.metadata?.completed),
+          assignedTo: source?.metadata?.assigned ?? '',
+          recurrenceType: source?.metadata?.recurrence?.type ?? 'none',
+          recurrenceInterval: source?.metadata?.recurrence?.interval ?? 1,
+          recurrenceDayOfMonth: source?.metadata?.recurrence?.dayOfMonth ?? 1
         }
       )
     }
@@ -402,6 +436,16 @@ const TaskEditor = (): JSX.Element => {
           {isDirty && <span className="kanbn-task-editor-dirty">*</span>}
         </h1>
         <div className="kanbn-task-editor-buttons kanbn-task-editor-main-buttons">
+          {state.taskCreated && <button
+            type="button"
+            className="kanbn-task-editor-button kanbn-task-editor-button-start-work"
+            title="Check out a branch for this task and move it to the first started column"
+            onClick={() => {
+              handleStartWork()
+            }}
+          >
+            <i className="codicon codicon-git-branch"></i>Start work
+          </button>}
           {state.taskCreated && <button
             type="button"
             className="kanbn-task-editor-button kanbn-task-editor-button-delete"
@@ -704,6 +748,63 @@ const TaskEditor = (): JSX.Element => {
                 </div>
               </div>
             </div>
+            {state.taskCreated && <div className="kanbn-task-editor-field kanbn-task-editor-field-history">
+              <h2 className="kanbn-task-editor-title">History</h2>
+              <div>
+                {history !== null && history.length === 0 && (
+                  <div className="kanbn-task-editor-history-empty">No commits have changed this task yet.</div>
+                )}
+                {history?.map(revision => (
+                  <div className="kanbn-task-editor-row-revision" key={revision.hash}>
+                    <div className="kanbn-task-editor-row">
+                      <div className="kanbn-task-editor-column kanbn-task-editor-field-revision-commit">
+                        <span className="kanbn-task-editor-revision-hash">{revision.hash.slice(0, 7)}</span>
+                        {revision.message}
+                      </div>
+                      <div className="kanbn-task-editor-column kanbn-task-editor-field-revision-date">
+                        {[revision.author, revision.date !== null ? formatDate(revision.date, state.dateFormat) : null].filter(i => i).join(', ')}
+                      </div>
+                      <div className="kanbn-task-editor-column kanbn-task-editor-column-buttons">
+                        {revision.taskFileChanged && <button
+                          type="button"
+                          className="kanbn-task-editor-button kanbn-task-editor-button-diff"
+                          title="Show the changes made to the task file"
+                          onClick={() => {
+                            vscode.postMessage({ command: 'kanbn.historyDiff', hash: revision.hash, hasParent: revision.hasParent })
+                          }}
+                        >
+                          <i className="codicon codicon-diff"></i>
+                        </button>}
+                        {revision.taskFileChanged && <button
+                          type="button"
+                          className="kanbn-task-editor-button kanbn-task-editor-button-restore"
+                          title="Restore the task file from this revision"
+                          onClick={() => {
+                            vscode.postMessage({ command: 'kanbn.restoreRevision', hash: revision.hash })
+                          }}
+                        >
+                          <i className="codicon codicon-discard"></i>
+                        </button>}
+                      </div>
+                    </div>
+                    <ul className="kanbn-task-editor-revision-changes">
+                      {revision.changes.map((change, index) => <li key={index}>{change}</li>)}
+                    </ul>
+                  </div>
+                ))}
+                <div className="kanbn-task-editor-buttons">
+                  <button
+                    type="button"
+                    className="kanbn-task-editor-button kanbn-task-editor-button-add"
+                    title="Load the task's history from git"
+                    disabled={historyLoading}
+                    onClick={handleLoadHistory}
+                  >
+                    <i className="codicon codicon-history"></i>{historyLoading ? 'Loading...' : history === null ? 'Load history' : 'Refresh history'}
+                  </button>
+                </div>
+              </div>
+            </div>}
           </div>
           <div className="kanbn-task-editor-column-right">
             <div className="kanbn-task-editor-field kanbn-task-editor-field-column">
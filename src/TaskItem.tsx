@@ -3,24 +3,7 @@ import { Draggable } from 'react-beautiful-dnd'
 import formatDate from 'dateformat'
 import { paramCase } from '@basementuniverse/kanbn/src/utility'
 import vscode from './vscode'
-
-// Parse date strings, handling DD/MM/YYYY format that JavaScript misinterprets as MM/DD/YYYY
-const parseDate = (value: any): Date | null => {
-  if (value == null) return null
-  const s = String(value)
-  // Match DD/MM/YYYY (1-2 digit day and month, 4-digit year)
-  const slashMatch = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
-  if (slashMatch != null) {
-    const day = parseInt(slashMatch[1], 10)
-    const month = parseInt(slashMatch[2], 10)
-    const year = parseInt(slashMatch[3], 10)
-    return new Date(year, month - 1, day)
-  }
-  // For ISO or other formats, let Date parse normally
-  const d = new Date(s)
-  if (isNaN(d.getTime())) return null
-  return d
-}
+import { parseDate, checkOverdue } from './dateUtils'
 
 const TaskItem = ({ task, columnName, customFields, position, dateFormat, isSelected, selectedCount, onSelect, onTagClick, onContextMenu, isCompletedColumn }: {
   task: KanbnTask
@@ -45,15 +28,6 @@ const TaskItem = ({ task, columnName, customFields, position, dateFormat, isSele
   const dueDate = 'due' in task.metadata ? safeFmt(task.metadata.due) : null
   const completedDate = 'completed' in task.metadata ? safeFmt(task.metadata.completed) : null
 
-  // Check if a task's due date is in the past
-  const checkOverdue = (task: KanbnTask): boolean => {
-    if ('due' in task.metadata && task.metadata.due !== undefined) {
-      const d = parseDate(task.metadata.due)
-      return d != null && d.getTime() < (new Date()).getTime()
-    }
-    return false
-  }
-
   return (
     <Draggable
       key={task.id}
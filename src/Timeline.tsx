@@ -0,0 +1,401 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import formatDate from 'dateformat'
+import { paramCase } from '@basementuniverse/kanbn/src/utility'
+import vscode from './vscode'
+import { parseDate, checkOverdue } from './dateUtils'
+
+type TimelineScale = 'day' | 'week' | 'month'
+
+// A task with the dates used to draw its bar. Tasks with only an end date are drawn as milestones, and tasks with only
+// a start date are drawn as open bars ending today.
+interface TimelineRow {
+  task: KanbnTask
+  start: Date | null
+  end: Date | null
+  // Whether the bar ends at the task's completed date rather than its due date
+  endIsCompleted: boolean
+  completed: boolean
+}
+
+interface TimelineDrag {
+  taskId: string
+  mode: 'move' | 'start' | 'end'
+  originX: number
+  days: number
+}
+
+const DAY = 24 * 60 * 60 * 1000
+const rowHeight = 28
+const headerHeight = 36
+const barHeight = 16
+const dayWidths: Record<TimelineScale, number> = { day: 40, week: 16, month: 5 }
+
+// Relation types where the related task has to be finished first, and where this task has to be finished first
+const dependsOnTypes = ['blocked by', 'depends on', 'requires', 'after']
+const dependencyOfTypes = ['blocks', 'required by', 'before']
+
+// Get the start of the day containing a date
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+// Add a number of days to a date, keeping the time of day
+const addDays = (date: Date, days: number): Date => {
+  const d = new Date(date)
+  d.setDate(d.getDate() + days)
+  return d
+}
+
+// Get the rows shown in the timeline, sorted by start date
+const getRows = (tasks: KanbnTask[], completedColumns: string[], hideCompleted: boolean): TimelineRow[] => tasks
+  .map(task => {
+    const completedDate = parseDate(task.metadata.completed)
+    return {
+      task,
+      start: parseDate(task.metadata.started),
+      end: completedDate ?? parseDate(task.metadata.due),
+      endIsCompleted: completedDate != null,
+      completed: completedDate != null || completedColumns.includes(task.column)
+    }
+  })
+  .filter(row => (row.start != null || row.end != null) && !(hideCompleted && row.completed))
+  .sort((a, b) => ((a.start ?? a.end) as Date).getTime() - ((b.start ?? b.end) as Date).getTime())
+
+// Get the start and end of a row after applying a drag in progress. Open bars end today.
+const getRowDates = (row: TimelineRow, drag: TimelineDrag | null): [Date | null, Date | null] => {
+  const today = new Date()
+  let start = row.start
+  let end = row.end ?? (start != null ? (today > start ? today : start) : null)
+  if (drag !== null && drag.taskId === row.task.id && drag.days !== 0) {
+    if (drag.mode === 'move') {
+      start = start != null ? addDays(start, drag.days) : null
+      end = end != null ? addDays(end, drag.days) : null
+    } else if (drag.mode === 'start' && start != null) {
+      start = addDays(start, drag.days)
+      if (end != null && start > end) start = end
+    } else if (drag.mode === 'end' && end != null) {
+      end = addDays(end, drag.days)
+      if (start != null && end < start) end = start
+    }
+  }
+  return [start, end]
+}
+
+// Get the dependency edges between rows as [from task id, to task id] pairs, where 'from' has to finish first
+const getDependencies = (rows: TimelineRow[]): Array<[string, string]> => {
+  const taskIds = new Set(rows.map(row => row.task.id))
+  const edges = new Map<string, [string, string]>()
+  for (const row of rows) {
+    for (const relation of row.task.relations) {
+      if (!taskIds.has(relation.task) || relation.task === row.task.id) continue
+      const type = relation.type.trim().toLowerCase()
+      let edge: [string, string] | null = null
+      if (dependsOnTypes.includes(type)) {
+        edge = [relation.task, row.task.id]
+      } else if (dependencyOfTypes.includes(type)) {
+        edge = [row.task.id, relation.task]
+      }
+      if (edge !== null) {
+        edges.set(edge.join('\n'), edge)
+      }
+    }
+  }
+  return [...edges.values()]
+}
+
+const Timeline = (): JSX.Element => {
+  const [state, setState] = useState(vscode.getState() ?? {
+    name: '',
+    tasks: [],
+    completedColumns: [],
+    hiddenColumns: [],
+    dateFormat: '',
+    scale: 'week',
+    hideCompleted: false
+  })
+  const [drag, setDrag] = useState<TimelineDrag | null>(null)
+
+  const processMessage = useCallback(event => {
+    setState(prevState => {
+      const newState = {
+        ...prevState,
+        name: event.data.index.name,
+        tasks: event.data.tasks,
+        completedColumns: event.data.completedColumns,
+        hiddenColumns: event.data.hiddenColumns,
+        dateFormat: event.data.dateFormat
+      }
+      vscode.setState(newState)
+      return newState
+    })
+  }, [])
+
+  useEffect(() => {
+    window.addEventListener('message', processMessage)
+    return () => {
+      window.removeEventListener('message', processMessage)
+    }
+  }, [])
+
+  // Indicate that the timeline is ready to receive messages and should be updated
+  useEffect(() => vscode.postMessage({ command: 'kanbn.updateMe' }), [])
+
+  const setOption = (option: 'scale' | 'hideCompleted', value: any): void => {
+    const newState = { ...state, [option]: value }
+    vscode.setState(newState)
+    setState(newState)
+  }
+
+  const scale: TimelineScale = state.scale
+  const dayWidth = dayWidths[scale]
+  const tasks = (state.tasks as KanbnTask[]).filter(task => !(state.hiddenColumns.includes(task.column) as boolean))
+  const rows = getRows(tasks, state.completedColumns, state.hideCompleted)
+  const undatedCount = tasks.length - getRows(tasks, state.completedColumns, false).length
+
+  // Open a task in the task editor
+  const openTask = (task: KanbnTask): void => {
+    vscode.postMessage({
+      command: 'kanbn.task',
+      taskId: task.id,
+      columnName: task.column
+    })
+  }
+
+  // Track the mouse while a bar or one of its handles is being dragged, and save the new dates when it's dropped
+  useEffect(() => {
+    if (drag === null) return
+    const handleMouseMove = (e: MouseEvent): void => {
+      const days = Math.round((e.clientX - drag.originX) / dayWidth)
+      if (days !== drag.days) {
+        setDrag({ ...drag, days })
+      }
+    }
+    const handleMouseUp = (): void => {
+      setDrag(null)
+      const row = rows.find(r => r.task.id === drag.taskId)
+      if (row === undefined || row.endIsCompleted) return
+      if (drag.days === 0) {
+        if (drag.mode === 'move') openTask(row.task)
+        return
+      }
+      const [start, end] = getRowDates(row, drag)
+      const message: any = { command: 'kanbn.reschedule', taskId: row.task.id }
+      if (drag.mode !== 'end' && row.start != null && start != null) {
+        message.started = start.toISOString()
+      }
+      if (drag.mode !== 'start' && end != null && (row.end != null || drag.mode === 'end')) {
+        message.due = end.toISOString()
+      }
+      vscode.postMessage(message)
+    }
+    window.addEventListener('mousemove', handleMouseMove)
+    window.addEventListener('mouseup', handleMouseUp)
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove)
+      window.removeEventListener('mouseup', handleMouseUp)
+    }
+  }, [drag, rows, dayWidth])
+
+  const startDrag = (e: React.MouseEvent, row: TimelineRow, mode: TimelineDrag['mode']): void => {
+    e.preventDefault()
+    e.stopPropagation()
+    setDrag({ taskId: row.task.id, mode, originX: e.clientX, days: 0 })
+  }
+
+  // Get the range of days shown, with some padding either side
+  const today = startOfDay(new Date())
+  const rowDates = rows.flatMap(row => getRowDates(row, null)).filter((d): d is Date => d != null)
+  const rangeStart = addDays(startOfDay(new Date(Math.min(today.getTime(), ...rowDates.map(d => d.getTime())))), -3)
+  const rangeEnd = addDays(startOfDay(new Date(Math.max(today.getTime(), ...rowDates.map(d => d.getTime())))), 8)
+  const dayCount = Math.round((rangeEnd.getTime() - rangeStart.getTime()) / DAY)
+  const width = dayCount * dayWidth
+  const height = headerHeight + rows.length * rowHeight
+  const x = (date: Date): number => (date.getTime() - rangeStart.getTime()) / DAY * dayWidth
+
+  // Get the gridlines and header labels for the current scale
+  const ticks: Array<{ date: Date, label: string | null, major: boolean }> = []
+  for (let i = 0; i <= dayCount; i++) {
+    const date = addDays(rangeStart, i)
+    const firstOfMonth = date.getDate() === 1
+    switch (scale) {
+      case 'day':
+        ticks.push({ date, label: firstOfMonth || i === 0 ? formatDate(date, 'mmm d') : formatDate(date, 'd'), major: firstOfMonth })
+        break
+      case 'week':
+        if (date.getDay() === 1) {
+          ticks.push({ date, label: formatDate(date, 'd mmm'), major: firstOfMonth })
+        }
+        break
+      default:
+        if (firstOfMonth) {
+          ticks.push({ date, label: formatDate(date, 'mmm yyyy'), major: date.getMonth() === 0 })
+        }
+    }
+  }
+
+  const rowIndex = new Map(rows.map((row, i) => [row.task.id, i]))
+  const rowCenter = (i: number): number => headerHeight + i * rowHeight + rowHeight / 2
+
+  return (
+    <div className="kanbn-timeline">
+      <div className="kanbn-timeline-toolbar">
+        <h1 className="kanbn-timeline-name">{state.name}</h1>
+        <label className="kanbn-timeline-option">
+          <input
+            type="checkbox"
+            checked={state.hideCompleted}
+            onChange={() => { setOption('hideCompleted', !(state.hideCompleted as boolean)) }}
+          />
+          Hide completed tasks
+        </label>
+        {undatedCount > 0 && <span className="kanbn-timeline-undated" title="Tasks without a started, due or completed date aren't shown">
+          {undatedCount} task{undatedCount === 1 ? '' : 's'} without dates
+        </span>}
+        <div className="kanbn-view-mode-toggle">
+          {(['day', 'week', 'month'] as TimelineScale[]).map(s => (
+            <button
+              key={s}
+              type="button"
+              className={`kanbn-view-mode-button${scale === s ? ' kanbn-view-mode-active' : ''}`}
+              onClick={() => { setOption('scale', s) }}
+            >
+              {s[0].toUpperCase() + s.slice(1)}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="kanbn-timeline-body">
+        <div className="kanbn-timeline-labels" style={{ height }}>
+          <div className="kanbn-timeline-labels-header" style={{ height: headerHeight }}></div>
+          {rows.map(row => (
+            <div key={row.task.id} className="kanbn-timeline-label" style={{ height: rowHeight }}>
+              <button type="button" onClick={() => { openTask(row.task) }} title={`${row.task.id} in ${row.task.column}`}>
+                {row.task.name}
+              </button>
+            </div>
+          ))}
+        </div>
+        <svg
+          className={`kanbn-timeline-chart${drag !== null ? ' kanbn-timeline-dragging' : ''}`}
+          width={width}
+          height={height}
+        >
+          <defs>
+            <marker id="kanbn-timeline-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path className="kanbn-timeline-arrowhead" d="M 0 0 L 10 5 L 0 10 z" />
+            </marker>
+          </defs>
+          {ticks.map(tick => (
+            <g key={tick.date.getTime()} className={`kanbn-timeline-tick${tick.major ? ' kanbn-timeline-tick-major' : ''}`}>
+              <line x1={x(tick.date)} y1={headerHeight - 8} x2={x(tick.date)} y2={height} />
+              {tick.label !== null && <text x={x(tick.date) + 3} y={headerHeight - 12}>{tick.label}</text>}
+            </g>
+          ))}
+          <line className="kanbn-timeline-today" x1={x(new Date())} y1={headerHeight - 8} x2={x(new Date())} y2={height}>
+            <title>Today</title>
+          </line>
+          {getDependencies(rows).map(([fromId, toId]) => {
+            const fromIndex = rowIndex.get(fromId) as number
+            const toIndex = rowIndex.get(toId) as number
+            const [fromStart, fromEnd] = getRowDates(rows[fromIndex], drag)
+            const [toStart, toEnd] = getRowDates(rows[toIndex], drag)
+            const x1 = x((fromEnd ?? fromStart) as Date)
+            const x2 = x((toStart ?? toEnd) as Date)
+            const y1 = rowCenter(fromIndex)
+            const y2 = rowCenter(toIndex)
+            return (
+              <path
+                key={`${fromId}-${toId}`}
+                className={`kanbn-timeline-dependency${x2 < x1 ? ' kanbn-timeline-dependency-conflict' : ''}`}
+                d={`M ${x1} ${y1} H ${x1 + 8} V ${y2} H ${x2}`}
+                markerEnd="url(#kanbn-timeline-arrow)"
+              >
+                <title>{`${fromId} → ${toId}`}</title>
+              </path>
+            )
+          })}
+          {rows.map((row, i) => {
+            const [start, end] = getRowDates(row, drag)
+            const y = rowCenter(i) - barHeight / 2
+            const className = [
+              'kanbn-timeline-bar',
+              // TODO: remove the explicit String cast once typescript bindings for kanbn are updated
+              `kanbn-timeline-bar-${String(paramCase(row.task.column))}`,
+              row.completed ? 'kanbn-timeline-bar-completed' : null,
+              !row.completed && checkOverdue(row.task) ? 'kanbn-task-overdue' : null,
+              row.start != null && row.end == null ? 'kanbn-timeline-bar-open' : null
+            ].filter(c => c).join(' ')
+            const title = `${row.task.name}\n${row.task.id} in ${row.task.column}${
+              start != null ? `\nStarted: ${formatDate(start, state.dateFormat)}` : ''
+            }${
+              end != null && row.end != null ? `\n${row.completed && row.task.metadata.completed != null ? 'Completed' : 'Due'}: ${formatDate(end, state.dateFormat)}` : ''
+            }`
+            // Bars that end at the completed date can't be dragged, since their end isn't the due date
+            const editable = !row.endIsCompleted
+
+            // Tasks with only a due date are drawn as milestones
+            if (start == null && end != null) {
+              const cx = x(end)
+              return (
+                <g key={row.task.id} className={`${className} kanbn-timeline-milestone`}>
+                  <path
+                    d={`M ${cx} ${y - 1} l ${barHeight / 2 + 1} ${barHeight / 2 + 1} l ${-(barHeight / 2 + 1)} ${barHeight / 2 + 1} l ${-(barHeight / 2 + 1)} ${-(barHeight / 2 + 1)} z`}
+                    onMouseDown={e => { if (editable) { startDrag(e, row, 'move') } else { openTask(row.task) } }}
+                  >
+                    <title>{title}</title>
+                  </path>
+                </g>
+              )
+            }
+            const x1 = x(start as Date)
+            const barWidth = Math.max(x(end as Date) - x1, 4)
+            return (
+              <g key={row.task.id} className={className}>
+                <rect
+                  x={x1}
+                  y={y}
+                  width={barWidth}
+                  height={barHeight}
+                  rx={3}
+                  onMouseDown={e => { if (editable) { startDrag(e, row, 'move') } else { openTask(row.task) } }}
+                >
+                  <title>{title}</title>
+                </rect>
+                {row.task.progress !== undefined && row.task.progress > 0 && <rect
+                  className="kanbn-timeline-bar-progress"
+                  x={x1}
+                  y={y + barHeight - 3}
+                  width={barWidth * Math.min(row.task.progress, 1)}
+                  height={3}
+                  pointerEvents="none"
+                />}
+                {editable && <>
+                  <rect
+                    className="kanbn-timeline-handle"
+                    x={x1 - 3}
+                    y={y}
+                    width={6}
+                    height={barHeight}
+                    onMouseDown={e => { startDrag(e, row, 'start') }}
+                  >
+                    <title>Drag to change the started date</title>
+                  </rect>
+                  <rect
+                    className="kanbn-timeline-handle"
+                    x={x1 + barWidth - 3}
+                    y={y}
+                    width={6}
+                    height={barHeight}
+                    onMouseDown={e => { startDrag(e, row, 'end') }}
+                  >
+                    <title>Drag to change the due date</title>
+                  </rect>
+                </>}
+              </g>
+            )
+          })}
+        </svg>
+      </div>
+    </div>
+  )
+}
+
+export default Timeline
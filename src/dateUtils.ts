@@ -0,0 +1,26 @@
+// Parse date strings, handling DD/MM/YYYY format that JavaScript misinterprets as MM/DD/YYYY
+export const parseDate = (value: any): Date | null => {
+  if (value == null) return null
+  const s = String(value)
+  // Match DD/MM/YYYY (1-2 digit day and month, 4-digit year)
+  const slashMatch = s.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (slashMatch != null) {
+    const day = parseInt(slashMatch[1], 10)
+    const month = parseInt(slashMatch[2], 10)
+    const year = parseInt(slashMatch[3], 10)
+    return new Date(year, month - 1, day)
+  }
+  // For ISO or other formats, let Date parse normally
+  const d = new Date(s)
+  if (isNaN(d.getTime())) return null
+  return d
+}
+
+// Check if a task's due date is in the past
+export const checkOverdue = (task: KanbnTask): boolean => {
+  if ('due' in task.metadata && task.metadata.due !== undefined) {
+    const d = parseDate(task.metadata.due)
+    return d != null && d.getTime() < (new Date()).getTime()
+  }
+  return false
+}
@@ -0,0 +1,374 @@
+import { parseDate, checkOverdue } from './dateUtils'
+
+interface CustomField { name: string, type: 'boolean' | 'date' | 'number' | 'string' }
+type Operator = ':' | '=' | '!=' | '<' | '<=' | '>' | '>='
+type Predicate = (task: KanbnTask) => boolean
+
+type Token =
+  | { type: '(' | ')' | 'AND' | 'OR' | 'NOT', position: number }
+  | { type: 'term', position: number, property: string | null, operator: Operator | null, value: string, quoted: boolean }
+
+// A syntax error in a filter string, with the character position it was found at
+export class FilterSyntaxError extends Error {
+  public readonly position: number
+
+  constructor (message: string, position: number) {
+    super(message)
+    this.name = 'FilterSyntaxError'
+    this.position = position
+  }
+}
+
+// Properties that are matched as text, and the values to match against for each task
+const textProperties: Record<string, (task: KanbnTask) => string[]> = {
+  name: task => [task.name],
+  description: task => [task.description, ...task.subTasks.map(subTask => subTask.text)],
+  assigned: task => task.metadata.assigned !== undefined ? [task.metadata.assigned] : [],
+  tag: task => task.metadata.tags ?? [],
+  relation: task => task.relations.map(relation => `${relation.type} ${relation.task}`),
+  subtask: task => task.subTasks.map(subTask => subTask.text),
+  comment: task => task.comments.map(comment => `${comment.author} ${comment.text}`),
+  column: task => task.column !== undefined ? [task.column] : [],
+  priority: task => task.metadata.priority !== undefined ? [task.metadata.priority] : [],
+  sprint: task => task.metadata.sprint !== undefined ? [String(task.metadata.sprint)] : []
+}
+
+// Properties that are compared as dates
+const dateProperties = ['created', 'updated', 'started', 'due', 'completed']
+
+// Properties that are compared as numbers (progress is a percentage)
+const numberProperties: Record<string, (task: KanbnTask) => number | undefined> = {
+  progress: task => task.progress !== undefined ? Math.round(task.progress * 100) : undefined,
+  workload: task => task.workload
+}
+
+const operators: Operator[] = ['<=', '>=', '!=', ':', '=', '<', '>']
+
+// Split a filter string into tokens
+const tokenize = (filter: string): Token[] => {
+  const tokens: Token[] = []
+  let i = 0
+
+  // Read a quoted string starting at the current position
+  const readQuoted = (): string => {
+    const start = i
+    const end = filter.indexOf('"', i + 1)
+    if (end === -1) {
+      throw new FilterSyntaxError('Missing closing quote', start)
+    }
+    i = end + 1
+    return filter.slice(start + 1, end)
+  }
+
+  // Read characters until whitespace, a parenthesis or a quote (and optionally an operator)
+  const readWord = (stopAtOperator: boolean): string => {
+    const start = i
+    const isWordEnd = (): boolean => /[\s()"]/.test(filter[i]) ||
+      (stopAtOperator && operators.some(operator => filter.startsWith(operator, i)))
+    while (i < filter.length && !isWordEnd()) {
+      i++
+    }
+    return filter.slice(start, i)
+  }
+
+  while (i < filter.length) {
+    const c = filter[i]
+    if (/\s/.test(c)) {
+      i++
+      continue
+    }
+    const position = i
+    if (c === '(' || c === ')') {
+      tokens.push({ type: c, position })
+      i++
+      continue
+    }
+
+    // A leading '-' negates the following term
+    if (c === '-' && i + 1 < filter.length && !/[\s)]/.test(filter[i + 1])) {
+      tokens.push({ type: 'NOT', position })
+      i++
+      continue
+    }
+    if (c === '"') {
+      tokens.push({ type: 'term', position, property: null, operator: null, value: readQuoted(), quoted: true })
+      continue
+    }
+    const word = readWord(true)
+    const operator = operators.find(operator => filter.startsWith(operator, i))
+    if (operator === undefined) {
+      if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        tokens.push({ type: word, position })
+      } else {
+        tokens.push({ type: 'term', position, property: null, operator: null, value: word, quoted: false })
+      }
+      continue
+    }
+    if (word === '') {
+      throw new FilterSyntaxError(`Expected a property name before '${operator}'`, position)
+    }
+    i += operator.length
+    const quoted = filter[i] === '"'
+    const value = quoted ? readQuoted() : readWord(false)
+    if (value === '') {
+      throw new FilterSyntaxError(`Expected a value after '${word}${operator}'`, i)
+    }
+    tokens.push({ type: 'term', position, property: word, operator, value, quoted })
+  }
+  return tokens
+}
+
+// Get the start of the day containing a date
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+// Add a number of days to a date
+const addDays = (date: Date, days: number): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+// Parse a date filter value into a [start, end) range. Relative values are 'today', 'yesterday', 'tomorrow',
+// '{this|last|next}-{week|month|year}' and day offsets such as '+7d', '-2w' or '3m'.
+const parseDateRange = (value: string): [Date, Date] | null => {
+  const today = startOfDay(new Date())
+  const v = value.toLowerCase()
+  switch (v) {
+    case 'today':
+      return [today, addDays(today, 1)]
+    case 'yesterday':
+      return [addDays(today, -1), today]
+    case 'tomorrow':
+      return [addDays(today, 1), addDays(today, 2)]
+  }
+  const relativeMatch = v.match(/^(this|last|next)-(week|month|year)$/)
+  if (relativeMatch != null) {
+    const offset = { this: 0, last: -1, next: 1 }[relativeMatch[1] as 'this' | 'last' | 'next']
+    switch (relativeMatch[2]) {
+      case 'week': {
+        // Weeks start on Monday
+        const start = addDays(today, -((today.getDay() + 6) % 7) + offset * 7)
+        return [start, addDays(start, 7)]
+      }
+      case 'month':
+        return [
+          new Date(today.getFullYear(), today.getMonth() + offset, 1),
+          new Date(today.getFullYear(), today.getMonth() + offset + 1, 1)
+        ]
+      default:
+        return [new Date(today.getFullYear() + offset, 0, 1), new Date(today.getFullYear() + offset + 1, 0, 1)]
+    }
+  }
+  const offsetMatch = v.match(/^([+-]?)(\d+)([dwm])$/)
+  if (offsetMatch != null) {
+    const amount = parseInt(offsetMatch[2], 10) * (offsetMatch[1] === '-' ? -1 : 1)
+    const start = offsetMatch[3] === 'm'
+      ? new Date(today.getFullYear(), today.getMonth() + amount, today.getDate())
+      : addDays(today, offsetMatch[3] === 'w' ? amount * 7 : amount)
+    return [start, addDays(start, 1)]
+  }
+
+  // Parse ISO dates as local dates rather than UTC
+  const isoMatch = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  const date = isoMatch != null
+    ? new Date(parseInt(isoMatch[1], 10), parseInt(isoMatch[2], 10) - 1, parseInt(isoMatch[3], 10))
+    : parseDate(value)
+  if (date == null || isNaN(date.getTime())) return null
+  const start = startOfDay(date)
+  return [start, addDays(start, 1)]
+}
+
+// Build a predicate for a date comparison
+const compareDate = (getValue: (task: KanbnTask) => any, operator: Operator, value: string, position: number): Predicate => {
+  const range = parseDateRange(value)
+  if (range === null) {
+    throw new FilterSyntaxError(`Invalid date '${value}'`, position)
+  }
+  const [start, end] = range.map(date => date.getTime())
+  return task => {
+    const date = parseDate(getValue(task))
+    if (date == null) return operator === '!='
+    const time = date.getTime()
+    switch (operator) {
+      case '<': return time < start
+      case '<=': return time < end
+      case '>': return time >= end
+      case '>=': return time >= start
+      case '!=': return time < start || time >= end
+      default: return time >= start && time < end
+    }
+  }
+}
+
+// Build a predicate for a number comparison
+const compareNumber = (getValue: (task: KanbnTask) => any, operator: Operator, value: string, position: number): Predicate => {
+  const n = Number(value.replace(/%$/, ''))
+  if (value.trim() === '' || isNaN(n)) {
+    throw new FilterSyntaxError(`Invalid number '${value}'`, position)
+  }
+  return task => {
+    const taskValue = getValue(task)
+    if (taskValue === undefined || taskValue === null || isNaN(Number(taskValue))) return operator === '!='
+    const v = Number(taskValue)
+    switch (operator) {
+      case '<': return v < n
+      case '<=': return v <= n
+      case '>': return v > n
+      case '>=': return v >= n
+      case '!=': return v !== n
+      default: return v === n
+    }
+  }
+}
+
+// Build a predicate for a text comparison against a list of values
+const compareText = (
+  getValues: (task: KanbnTask) => string[],
+  property: string,
+  operator: Operator,
+  value: string,
+  position: number
+): Predicate => {
+  if (!([':', '=', '!='] as Operator[]).includes(operator)) {
+    throw new FilterSyntaxError(`'${operator}' can't be used with '${property}'`, position)
+  }
+  const v = value.toLowerCase()
+  switch (operator) {
+    case '=': return task => getValues(task).some(taskValue => taskValue.toLowerCase() === v)
+    case '!=': return task => !getValues(task).some(taskValue => taskValue.toLowerCase() === v)
+    default: return task => getValues(task).some(taskValue => taskValue.toLowerCase().includes(v))
+  }
+}
+
+// Build a predicate for a term token
+const parseTerm = (token: Token & { type: 'term' }, customFields: CustomField[]): Predicate => {
+  const customField = customFields.find(customField => customField.name.toLowerCase() === (token.property ?? token.value).toLowerCase())
+
+  // Terms without a property are keywords, boolean custom fields or text searches
+  if (token.property === null || token.operator === null) {
+    if (!token.quoted && token.value.toLowerCase() === 'overdue') {
+      return checkOverdue
+    }
+    if (!token.quoted && customField !== undefined && customField.type === 'boolean') {
+      return task => task.metadata[customField.name] === true
+    }
+    const v = token.value.toLowerCase()
+    return task => task.id.toLowerCase().includes(v) || task.name.toLowerCase().includes(v)
+  }
+
+  const property = token.property.toLowerCase()
+  const { operator, value, position } = token
+  if (property in textProperties) {
+    return compareText(textProperties[property], property, operator, value, position)
+  }
+  if (dateProperties.includes(property)) {
+    return compareDate(task => task.metadata[property], operator, value, position)
+  }
+  if (property in numberProperties) {
+    return compareNumber(numberProperties[property], operator, value, position)
+  }
+  if (customField !== undefined) {
+    const getValue = (task: KanbnTask): any => task.metadata[customField.name]
+    switch (customField.type) {
+      case 'date':
+        return compareDate(getValue, operator, value, position)
+      case 'number':
+        return compareNumber(getValue, operator, value, position)
+      case 'boolean': {
+        const v = value.toLowerCase()
+        if (!(['true', 'false'].includes(v)) || !([':', '=', '!='] as Operator[]).includes(operator)) {
+          throw new FilterSyntaxError(`Expected '${token.property}:true' or '${token.property}:false'`, position)
+        }
+        return task => ((task.metadata[customField.name] === true) === (v === 'true')) === (operator !== '!=')
+      }
+      default:
+        return compareText(task => getValue(task) != null ? [String(getValue(task))] : [], property, operator, value, position)
+    }
+  }
+  throw new FilterSyntaxError(`Unknown property '${token.property}'`, position)
+}
+
+// Parse a filter string into a predicate that checks if a task matches the filter. Terms are ANDed together unless
+// separated by OR, and can be negated with NOT or '-' and grouped with parentheses. Throws a FilterSyntaxError if the
+// filter string is invalid.
+export const parseFilter = (filter: string, customFields: CustomField[]): Predicate => {
+  const tokens = tokenize(filter)
+  let i = 0
+
+  const parseOr = (): Predicate => {
+    const predicates = [parseAnd()]
+    while (tokens[i]?.type === 'OR') {
+      i++
+      predicates.push(parseAnd())
+    }
+    return predicates.length === 1 ? predicates[0] : task => predicates.some(predicate => predicate(task))
+  }
+
+  const parseAnd = (): Predicate => {
+    const predicates = [parseNot()]
+    while (i < tokens.length && tokens[i].type !== 'OR' && tokens[i].type !== ')') {
+      if (tokens[i].type === 'AND') {
+        i++
+      }
+      predicates.push(parseNot())
+    }
+    return predicates.length === 1 ? predicates[0] : task => predicates.every(predicate => predicate(task))
+  }
+
+  const parseNot = (): Predicate => {
+    if (tokens[i]?.type === 'NOT') {
+      i++
+      const predicate = parseNot()
+      return task => !predicate(task)
+    }
+    return parsePrimary()
+  }
+
+  const parsePrimary = (): Predicate => {
+    const token = tokens[i]
+    if (token === undefined) {
+      const previous = tokens[i - 1]
+      throw new FilterSyntaxError(
+        previous !== undefined && previous.type !== 'term' && previous.type !== ')'
+          ? `Expected a search term after '${previous.type}'`
+          : 'Expected a search term',
+        filter.length
+      )
+    }
+    switch (token.type) {
+      case '(': {
+        i++
+        const predicate = parseOr()
+        if (tokens[i]?.type !== ')') {
+          throw new FilterSyntaxError('Missing closing parenthesis', token.position)
+        }
+        i++
+        return predicate
+      }
+      case 'term':
+        i++
+        return parseTerm(token, customFields)
+      default:
+        throw new FilterSyntaxError(`Unexpected '${token.type}'`, token.position)
+    }
+  }
+
+  // An empty filter matches every task
+  if (tokens.length === 0) {
+    return () => true
+  }
+  const predicate = parseOr()
+  if (i < tokens.length) {
+    throw new FilterSyntaxError(`Unexpected '${tokens[i].type}'`, tokens[i].position)
+  }
+  return predicate
+}
+
+// Check a filter string for syntax errors, returning the error or null if the filter is valid
+export const checkFilter = (filter: string, customFields: CustomField[]): FilterSyntaxError | null => {
+  try {
+    parseFilter(filter, customFields)
+    return null
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) {
+      return error
+    }
+    throw error
+  }
+}
@@ -2,6 +2,11 @@ import * as React from 'react'
 import Board from './Board'
 import Burndown from './Burndown'
 import TaskEditor from './TaskEditor'
+import Timeline from './Timeline'
+import Metrics from './Metrics'
+import Sprint from './Sprint'
+import Conflicts from './Conflicts'
+import Import from './Import'
 import './index.css'
 
 import { createRoot } from 'react-dom/client'
@@ -20,6 +25,36 @@ if (domNodeBoard !== null) {
     if (domNodeTask !== null) {
       const rootTask = createRoot(domNodeTask)
       rootTask.render(<TaskEditor />)
+    } else {
+      const domNodeTimeline = document.getElementById('root-timeline')
+      if (domNodeTimeline !== null) {
+        const rootTimeline = createRoot(domNodeTimeline)
+        rootTimeline.render(<Timeline />)
+      } else {
+        const domNodeMetrics = document.getElementById('root-metrics')
+        if (domNodeMetrics !== null) {
+          const rootMetrics = createRoot(domNodeMetrics)
+          rootMetrics.render(<Metrics />)
+        } else {
+          const domNodeSprint = document.getElementById('root-sprint')
+          if (domNodeSprint !== null) {
+            const rootSprint = createRoot(domNodeSprint)
+            rootSprint.render(<Sprint />)
+          } else {
+            const domNodeConflicts = document.getElementById('root-conflicts')
+            if (domNodeConflicts !== null) {
+              const rootConflicts = createRoot(domNodeConflicts)
+              rootConflicts.render(<Conflicts />)
+            } else {
+              const domNodeImport = document.getElementById('root-import')
+              if (domNodeImport !== null) {
+                const rootImport = createRoot(domNodeImport)
+                rootImport.render(<Import />)
+              }
+            }
+          }
+        }
+      }
     }
   }
 }